@@ -0,0 +1,62 @@
+import { Action, ActionPanel, Detail, Icon } from "@raycast/api";
+import { usePromise } from "@raycast/utils";
+import { API_URL, Calendar, CalendarDay, getCalendar, STARS_PER_DAY, useAccount } from "../util/api";
+import { codeBlock } from "../util/markdown";
+import { formatDate, withAccount, withCachedAt } from "../util/utils";
+
+/**
+ * Describe a day's progress for the list under the calendar.
+ * @param day - the day to describe
+ * @returns a markdown list item for the day
+ */
+function dayLine({ day, unlocked, unlockTime, stars }: CalendarDay): string {
+  if (!unlocked) {
+    return `- 🔒 Day ${day}: unlocks ${formatDate(unlockTime)}`;
+  } else if (stars === STARS_PER_DAY) {
+    return `- ${"⭐".repeat(stars)} **Day ${day}**: ${stars}/${STARS_PER_DAY}`;
+  } else if (stars > 0) {
+    return `- ${"⭐".repeat(stars)} Day ${day}: ${stars}/${STARS_PER_DAY}`;
+  } else {
+    return `- ▫️ Day ${day}: 0/${STARS_PER_DAY}`;
+  }
+}
+
+/**
+ * Render a calendar's art in a code block, so it's monospaced, followed by each day's stars.
+ * @param calendar - the calendar to render
+ * @returns markdown for the calendar
+ */
+function calendarMarkdown(calendar: Calendar): string {
+  const stars = calendar.days.reduce((total, day) => total + day.stars, 0);
+  return [
+    `# ${calendar.year}: ${stars}/${calendar.maxStars} stars`,
+    calendar.art ? codeBlock(calendar.art) : "_The calendar hasn't been drawn yet._",
+    calendar.days.map(dayLine).join("\n"),
+  ].join("\n\n");
+}
+
+interface CalendarDetailProps {
+  /** The calendar's year */
+  year: number;
+  /** Session token of the profile to show stars for */
+  sessionToken: string;
+}
+
+export function CalendarDetail({ year, sessionToken }: CalendarDetailProps) {
+  const { isLoading, data } = usePromise(getCalendar, [year, sessionToken]);
+  const account = useAccount(sessionToken);
+
+  return (
+    <Detail
+      navigationTitle={withAccount(withCachedAt(`Calendar for ${year}`, data?.cachedAt), account?.name)}
+      isLoading={isLoading}
+      markdown={data && calendarMarkdown(data.value)}
+      actions={
+        <ActionPanel>
+          <Action.OpenInBrowser url={`${API_URL}/${year}`} />
+          {data && <Action.CopyToClipboard title="Copy Calendar" content={data.value.art} icon={Icon.Clipboard} />}
+        </ActionPanel>
+      }
+    />
+  );
+}
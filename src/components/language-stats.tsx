@@ -0,0 +1,93 @@
+import { Action, ActionPanel, Detail, Icon } from "@raycast/api";
+import { useCachedPromise } from "@raycast/utils";
+import { analyzeProjects, ProjectLanguages } from "../util/languages";
+import { Project } from "../util/projects";
+
+/** How much of a group of projects is written in a language */
+type LanguageTotals = { projects: number; lines: number };
+
+/**
+ * Add up projects and lines of code for each language. Projects count towards their primary
+ * language, while lines count towards the language they're written in.
+ * @param projects - the projects to add up
+ * @param languages - map from each project's path to its languages
+ * @returns totals for each language, with the most projects first
+ */
+function languageTotals(projects: Project[], languages: Record<string, ProjectLanguages>): [string, LanguageTotals][] {
+  const totals = new Map<string, LanguageTotals>();
+  const total = (language: string) => {
+    const existing = totals.get(language) ?? { projects: 0, lines: 0 };
+    totals.set(language, existing);
+    return existing;
+  };
+
+  for (const project of projects) {
+    const { primary, lines } = languages[project.path] ?? { lines: {} };
+    if (primary) {
+      total(primary).projects += 1;
+    }
+    for (const [language, count] of Object.entries(lines)) {
+      total(language).lines += count;
+    }
+  }
+  return Array.from(totals.entries()).toSorted(([, a], [, b]) => b.projects - a.projects || b.lines - a.lines);
+}
+
+/**
+ * Render a table of language totals.
+ * @param totals - totals for each language
+ * @returns a markdown table, with a row for each language
+ */
+function totalsTable(totals: [string, LanguageTotals][]): string {
+  if (totals.length === 0) {
+    return "_No code found._";
+  }
+  const rows = totals.map(
+    ([language, { projects, lines }]) => `| ${language} | ${projects} | ${lines.toLocaleString()} |`,
+  );
+  return ["| Language | Projects | Lines of Code |", "| :------- | -------: | ------------: |", ...rows].join("\n");
+}
+
+/**
+ * Render the language breakdown for every year, along with the totals across all years.
+ * @param projects - map from year to the year's projects
+ * @param languages - map from each project's path to its languages
+ * @returns markdown for the breakdown
+ */
+function statsMarkdown(projects: Map<number, Project[]>, languages: Record<string, ProjectLanguages>): string {
+  const years = Array.from(projects.entries()).toSorted(([a], [b]) => b - a);
+  const all = years.flatMap(([, days]) => days);
+  return [
+    "# All Years",
+    totalsTable(languageTotals(all, languages)),
+    ...years.flatMap(([year, days]) => [`## ${year}`, totalsTable(languageTotals(days, languages))]),
+  ].join("\n\n");
+}
+
+interface LanguageStatsProps {
+  /** Map from year to the year's projects */
+  projects: Map<number, Project[]>;
+}
+
+export function LanguageStats({ projects }: LanguageStatsProps) {
+  const paths = Array.from(projects.values())
+    .flat()
+    .map((project) => project.path);
+  const { isLoading, data } = useCachedPromise(analyzeProjects, [paths]);
+  const markdown = data && statsMarkdown(projects, data);
+
+  return (
+    <Detail
+      navigationTitle="Language Statistics"
+      isLoading={isLoading}
+      markdown={markdown}
+      actions={
+        markdown && (
+          <ActionPanel>
+            <Action.CopyToClipboard title="Copy Markdown" content={markdown} icon={Icon.Clipboard} />
+          </ActionPanel>
+        )
+      }
+    />
+  );
+}
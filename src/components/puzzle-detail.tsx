@@ -0,0 +1,47 @@
+import { Action, ActionPanel, Detail, Icon } from "@raycast/api";
+import { useCachedPromise } from "@raycast/utils";
+import { API_URL, getPuzzle, Puzzle, useAccount } from "../util/api";
+import { withAccount, withCachedAt } from "../util/utils";
+
+/**
+ * Combine each of a puzzle's parts into a single markdown document.
+ * @param puzzle - the puzzle to render
+ * @returns markdown for the whole puzzle
+ */
+function puzzleMarkdown(puzzle: Puzzle): string {
+  return puzzle.parts
+    .map((part) => (part.answer ? `${part.markdown}\n\nYour puzzle answer was \`${part.answer}\`.` : part.markdown))
+    .join("\n\n---\n\n");
+}
+
+interface PuzzleDetailProps {
+  /** The puzzle's year */
+  year: number;
+  /** The puzzle's day */
+  day: number;
+  /** Session token of the profile to view the puzzle as, since part 2 is only shown once part 1 is solved */
+  sessionToken: string;
+}
+
+export function PuzzleDetail({ year, day, sessionToken }: PuzzleDetailProps) {
+  const { isLoading, data } = useCachedPromise(getPuzzle, [year, day, sessionToken]);
+  const account = useAccount(sessionToken);
+  const markdown = data && puzzleMarkdown(data.value);
+
+  return (
+    <Detail
+      navigationTitle={withAccount(
+        data ? withCachedAt(`${year} ${data.value.title}`, data.cachedAt) : `${year}/${day}`,
+        account?.name,
+      )}
+      isLoading={isLoading}
+      markdown={markdown}
+      actions={
+        <ActionPanel>
+          <Action.OpenInBrowser url={`${API_URL}/${year}/day/${day}`} />
+          {markdown && <Action.CopyToClipboard title="Copy Markdown" content={markdown} icon={Icon.Clipboard} />}
+        </ActionPanel>
+      }
+    />
+  );
+}
@@ -0,0 +1,159 @@
+import { Action, ActionPanel, Color, Detail, getPreferenceValues, Icon, Keyboard } from "@raycast/api";
+import { usePromise } from "@raycast/utils";
+import { useEffect, useState } from "react";
+import { codeBlock } from "../util/markdown";
+import { Profile } from "../util/profiles";
+import { Project } from "../util/projects";
+import { detectRunConfig, runCommand, RunResult, runConfigs } from "../util/run";
+import { submitAnswer } from "../util/submissions";
+
+/**
+ * Get the answer from a solution's output, which we take to be the last non-empty line of stdout.
+ * @param stdout - the solution's stdout
+ * @returns the answer, or undefined if there was no output
+ */
+function answerFromOutput(stdout: string): string | undefined {
+  return stdout
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .at(-1);
+}
+
+/**
+ * Get a readable status for a run.
+ * @param result - the run's result, or undefined if it's still running
+ * @param error - error that stopped the run from starting, if any
+ * @returns the status text and its color
+ */
+function runStatus(result: RunResult | undefined, error: string | undefined): { text: string; color: Color } {
+  if (error) {
+    return { text: "Failed to start", color: Color.Red };
+  } else if (!result) {
+    return { text: "Running", color: Color.Blue };
+  } else if (result.timedOut) {
+    return { text: "Timed out", color: Color.Red };
+  } else if (result.exitCode === 0) {
+    return { text: "Finished", color: Color.Green };
+  } else {
+    return { text: `Exited with code ${result.exitCode ?? "unknown"}`, color: Color.Red };
+  }
+}
+
+interface RunSolutionProps {
+  /** The project's year */
+  year: number;
+  /** The project to run */
+  project: Project;
+  /** The profile to submit answers as */
+  profile: Profile;
+}
+
+export function RunSolution({ year, project, profile }: RunSolutionProps) {
+  const preferences = getPreferenceValues<Preferences.OpenProject>();
+  const timeoutMs = (parseInt(preferences.runTimeout, 10) || 60) * 1000;
+
+  const { isLoading: configLoading, data: config } = usePromise(detectRunConfig, [
+    project.path,
+    runConfigs(preferences),
+  ]);
+
+  const [output, setOutput] = useState("");
+  const [stdout, setStdout] = useState("");
+  const [result, setResult] = useState<RunResult>();
+  const [error, setError] = useState<string>();
+  // Incremented to run the solution again
+  const [runCount, setRunCount] = useState(0);
+
+  useEffect(() => {
+    if (!config) {
+      return;
+    }
+
+    setOutput("");
+    setStdout("");
+    setResult(undefined);
+    setError(undefined);
+
+    // Set once this run is replaced, so the stopped process can't overwrite the next run's state
+    let cancelled = false;
+    const handle = runCommand(config.command, project.path, timeoutMs, (chunk, stream) => {
+      if (cancelled) {
+        return;
+      }
+      setOutput((prev) => prev + chunk);
+      if (stream === "stdout") {
+        setStdout((prev) => prev + chunk);
+      }
+    });
+    handle.result
+      .then((result) => !cancelled && setResult(result))
+      .catch((e: unknown) => !cancelled && setError(String(e)));
+
+    // Don't leave the solution running if the user leaves the view or runs it again
+    return () => {
+      cancelled = true;
+      handle.stop();
+    };
+  }, [config, runCount]);
+
+  const answer = result && answerFromOutput(stdout);
+  const status = runStatus(result, error);
+
+  let markdown: string;
+  if (!configLoading && !config) {
+    const markers = runConfigs(preferences).map((c) => `\`${c.marker}\``);
+    markdown = `No run command found for this project. Add one of ${markers.join(", ")} to the project.`;
+  } else {
+    // Solutions can print anything, including backticks
+    markdown = codeBlock(error ?? output);
+  }
+
+  const submit = (part: string) =>
+    answer &&
+    // Confetti is a Submit Solution preference, so skip it here
+    submitAnswer({ year: year.toString(), day: project.day.toString(), part, answer }, profile, false);
+
+  return (
+    <Detail
+      navigationTitle={`Run ${year}/${project.day}`}
+      isLoading={configLoading || (config && !result && !error)}
+      markdown={markdown}
+      metadata={
+        config && (
+          <Detail.Metadata>
+            <Detail.Metadata.Label title="Language" text={config.language} />
+            <Detail.Metadata.Label title="Command" text={config.command} />
+            <Detail.Metadata.TagList title="Status">
+              <Detail.Metadata.TagList.Item text={status.text} color={status.color} />
+            </Detail.Metadata.TagList>
+            <Detail.Metadata.Separator />
+            <Detail.Metadata.Label title="Answer" text={answer ?? "None"} />
+          </Detail.Metadata>
+        )
+      }
+      actions={
+        <ActionPanel>
+          {answer && (
+            <ActionPanel.Section>
+              <Action title="Submit as Part 1" icon={Icon.Upload} onAction={() => submit("1")} />
+              <Action title="Submit as Part 2" icon={Icon.Upload} onAction={() => submit("2")} />
+              <Action.CopyToClipboard title="Copy Answer" content={answer} />
+            </ActionPanel.Section>
+          )}
+          <ActionPanel.Section>
+            {config && (
+              <Action
+                title="Run Again"
+                icon={Icon.RotateClockwise}
+                onAction={() => setRunCount((count) => count + 1)}
+                shortcut={Keyboard.Shortcut.Common.Refresh}
+              />
+            )}
+            <Action.CopyToClipboard title="Copy Output" content={output} shortcut={Keyboard.Shortcut.Common.Copy} />
+          </ActionPanel.Section>
+        </ActionPanel>
+      }
+    />
+  );
+}
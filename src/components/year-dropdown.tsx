@@ -0,0 +1,42 @@
+import { List } from "@raycast/api";
+import { ReactNode } from "react";
+
+interface YearDropdownProps {
+  /** Years to show in the dropdown */
+  years: number[];
+  /** Value to select before the user picks one */
+  defaultValue?: string;
+  /** Whether to remember the last value selected, which takes priority over the default */
+  storeValue: boolean;
+  /** Whether to add an "All" item, with the value "all" */
+  showAll?: boolean;
+  /** Tooltip for the dropdown */
+  tooltip?: string;
+  /** Callback to trigger when the dropdown's selected value changes */
+  onChange: (value: string) => void;
+  /** Extra sections to show after the years, which puts the years in their own section */
+  children?: ReactNode;
+}
+
+/**
+ * Dropdown for filtering a list by year. Values are "{year}", or "all" if `showAll` is set, along
+ * with the values of any extra sections.
+ */
+export function YearDropdown({
+  years,
+  defaultValue,
+  storeValue,
+  showAll = false,
+  tooltip = "Select Year",
+  onChange,
+  children,
+}: YearDropdownProps) {
+  const items = years.map((year) => <List.Dropdown.Item key={year} title={year.toString()} value={year.toString()} />);
+  return (
+    <List.Dropdown tooltip={tooltip} storeValue={storeValue} defaultValue={defaultValue} onChange={onChange}>
+      {showAll && <List.Dropdown.Item key="all" title="All" value="all" />}
+      {children ? <List.Dropdown.Section title="Years">{items}</List.Dropdown.Section> : items}
+      {children}
+    </List.Dropdown>
+  );
+}
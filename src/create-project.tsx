@@ -1,51 +1,57 @@
-import { Form, ActionPanel, Action, showToast, getPreferenceValues, Toast, open, captureException } from "@raycast/api";
-import { AocError, saveInput, useIncompleteDays, useYears } from "./util/api";
-import { useEffect } from "react";
+import {
+  Form,
+  ActionPanel,
+  Action,
+  showToast,
+  getPreferenceValues,
+  Toast,
+  open,
+  captureException,
+  LocalStorage,
+  LaunchProps,
+} from "@raycast/api";
+import { AocError, getPuzzle, useAccount, useIncompleteDays, useYears } from "./util/api";
+import { useEffect, useRef } from "react";
 import { FormValidation, useForm, usePromise } from "@raycast/utils";
-import { completedDays, pathDoesntExist, ProjectError, yearDirectories } from "./util/projects";
-import fs from "node:fs/promises";
+import { completedDays, isLooseLayout, layoutHasSlug, ProjectError, projectLayout } from "./util/projects";
 import path from "node:path";
-import { removeKeys } from "./util/utils";
+import { removeKeys, slugify, withAccount, withCachedAt } from "./util/utils";
+import { listTemplates } from "./util/templates";
+import { createProject } from "./util/scaffold";
+import { Profile, useActiveProfile } from "./util/profiles";
+import { PuzzleContext } from "./util/launch";
 
 interface ProjectValues {
   year: string;
   day: string;
   projectName: string;
+  template: string;
   downloadInput: boolean;
   openAfter: boolean;
 }
 
 /**
- * Create the project in the appropriate year's directory, creating the year
- * directory if necessary (defaults to `advent{year}`).
- * @param baseDir - the base projects directory
- * @param currYear - the year of the project
- * @param day - the day of the project
- * @param projectName - the desired name of the project folder
- * @param sessionToken - the session token, to download input.txt
- * @returns the path of the created project
+ * Get the local storage key for the last template used in a given year.
+ * @param year - the year the template was used for
+ * @returns the key used in local storage for the year
  */
-async function createProject(
-  baseDir: string,
-  currYear: number,
-  day: number,
-  projectName: string,
-  sessionToken: string,
-): Promise<string> {
-  const dirs = await yearDirectories(baseDir);
-  const yearPath = dirs.get(currYear) ?? path.join(baseDir, `advent${currYear}`);
-  const projectPath = path.join(yearPath, projectName);
-
-  await pathDoesntExist(projectPath);
-
-  // The project doesn't exist already, so make it
-  await fs.mkdir(projectPath, { recursive: true });
-  await saveInput(currYear, day, projectPath, sessionToken);
-  return projectPath;
+function templateKey(year: string): string {
+  return `template/${year}`;
 }
 
-export default function Command() {
+interface CreateProjectFormProps {
+  profile: Profile;
+  /** Puzzle to pre-fill the form with, if launched from another command */
+  context?: PuzzleContext;
+}
+
+function CreateProjectForm({ profile, context }: CreateProjectFormProps) {
   const preferences = getPreferenceValues<Preferences.CreateProject>();
+  const layout = projectLayout();
+  // Only ask for a project name if the layout uses one, or for the default layout, which has always let
+  // projects be named freely
+  const hasSlug = layoutHasSlug(layout);
+  const hasName = hasSlug || isLooseLayout(layout);
 
   const { handleSubmit, itemProps, setValidationError, reset, values, setValue } = useForm<ProjectValues>({
     async onSubmit(values) {
@@ -56,26 +62,64 @@ export default function Command() {
         });
 
         // Try creating the project in the directory
-        const projectPath = await createProject(
-          preferences.projectDirectory,
+        const { path: projectPath, examplesError } = await createProject(
+          profile.projectDirectory,
+          layout,
           parseInt(values.year),
           parseInt(values.day),
-          values.projectName,
-          preferences.sessionToken,
+          // Layouts without a name don't use the slug, and the hidden field's value shouldn't leak in
+          hasName ? values.projectName : "",
+          profile.sessionToken,
+          values.template && preferences.templatesDirectory
+            ? path.join(preferences.templatesDirectory, values.template)
+            : undefined,
         );
 
-        showToast({
-          style: Toast.Style.Success,
-          title: `Created project ${values.projectName} for ${values.year}/${values.day}`,
-          message: `${values.projectName} created`,
-        });
+        // The folder's name comes from the layout, so it may not be the name that was entered
+        const name = path.basename(projectPath);
+
+        // Remember the template, so it's selected by default next time for this year
+        await LocalStorage.setItem(templateKey(values.year), values.template);
+
+        if (examplesError === undefined) {
+          showToast({
+            style: Toast.Style.Success,
+            title: `Created project ${name} for ${values.year}/${values.day}`,
+            message: `${name} created`,
+          });
+        } else {
+          // The project is still usable without examples, so warn instead of failing
+          if (!(examplesError instanceof AocError)) {
+            captureException(examplesError);
+          }
+          showToast({
+            style: Toast.Style.Failure,
+            title: `Created project ${name}, but unable to download examples`,
+            message:
+              examplesError instanceof AocError && examplesError.name === "OFFLINE"
+                ? "Puzzle isn't cached, and offline mode is on"
+                : "Save them later with Save New Examples in Open Project",
+          });
+        }
 
         // Open the project automatically if desired
         if (values.openAfter) {
           await open(projectPath, preferences.openApp);
         }
       } catch (e) {
-        if (e instanceof AocError) {
+        if (e instanceof AocError && e.name === "OFFLINE") {
+          showToast({
+            style: Toast.Style.Failure,
+            title: "Unable to download input",
+            message: "Input isn't cached, and offline mode is on",
+          });
+        } else if (e instanceof AocError && e.name === "SERVER_ERROR") {
+          showToast({
+            style: Toast.Style.Failure,
+            title: "Unable to download input",
+            message: "Advent of Code is having trouble, so try again soon",
+          });
+        } else if (e instanceof AocError) {
           showToast({
             style: Toast.Style.Failure,
             title: "Unable to download input",
@@ -99,6 +143,8 @@ export default function Command() {
       }
     },
     initialValues: {
+      year: context?.year?.toString(),
+      template: "",
       downloadInput: true,
       openAfter: true,
     },
@@ -111,23 +157,31 @@ export default function Command() {
         }
       },
       day: FormValidation.Required,
-      projectName: FormValidation.Required,
+      projectName: (value) => (hasName && !value ? "Item is required" : undefined),
     },
   });
 
-  const { data: projects } = usePromise(completedDays, [preferences.projectDirectory]);
+  const account = useAccount(profile.sessionToken);
+
+  const { data: projects } = usePromise(completedDays, [profile.projectDirectory, layout]);
 
   // List of possible years and the currently selected year, to filter days
-  const { isLoading: yearsLoading, data: years } = useYears(projects);
+  const { isLoading: yearsLoading, data: years } = useYears(projects, profile.sessionToken);
+
+  // Day from the launch context, which is only selected the first time days load
+  const contextDay = useRef(context?.day);
 
-  const { isLoading: daysLoading, data: days } = useIncompleteDays(
+  const { isLoading: daysLoading, data: incompleteDays } = useIncompleteDays(
     parseInt(values.year),
-    preferences.sessionToken,
+    profile.sessionToken,
     // Reset selected day whenever we need to load choices
     (newValue) => {
       if (newValue !== undefined && newValue.length > 0) {
-        // Update the selected day value to a reasonable default
-        setValue("day", newValue[0].toString());
+        // Update the selected day value to the launch context's day, or a reasonable default
+        const day =
+          contextDay.current !== undefined && newValue.includes(contextDay.current) ? contextDay.current : newValue[0];
+        contextDay.current = undefined;
+        setValue("day", day.toString());
       } else {
         // There's nothing we could select, so just remove the current value
         reset(removeKeys(values, "day"));
@@ -135,11 +189,34 @@ export default function Command() {
     },
   );
 
+  const days = incompleteDays?.value;
+
+  const { isLoading: templatesLoading, data: templates } = usePromise(listTemplates, [preferences.templatesDirectory]);
+
+  // Select the last template used for the year whenever the year or available templates change
+  useEffect(() => {
+    if (!values.year || !templates) {
+      return;
+    }
+    LocalStorage.getItem<string>(templateKey(values.year)).then((template) => {
+      if (template !== undefined && (template === "" || templates.includes(template))) {
+        setValue("template", template);
+      }
+    });
+  }, [values.year, templates]);
+
+  // Name projects after the puzzle's title, if the layout includes a name
+  const { data: puzzle } = usePromise(getPuzzle, [parseInt(values.year), parseInt(values.day), profile.sessionToken], {
+    execute: hasSlug && !!values.year && !!values.day,
+    // The title is only a suggestion, so the fallback name is fine if it can't be loaded
+    onError: () => {},
+  });
+
   // Change project name on day change - exact timing doesn't matter b/c we do
   // validation later, so useEffect is fine
   useEffect(() => {
     if (values.day) {
-      // We have a selected value, so use it
+      // We have a selected value, so use it until the puzzle's title loads
       setValue("projectName", `day${values.day}`);
     } else {
       // We don't have a selected value for day yet
@@ -147,8 +224,15 @@ export default function Command() {
     }
   }, [values.day]);
 
+  useEffect(() => {
+    if (puzzle) {
+      setValue("projectName", slugify(puzzle.value.title));
+    }
+  }, [puzzle]);
+
   return (
     <Form
+      navigationTitle={withAccount(withCachedAt("Create Project", incompleteDays?.cachedAt), account?.name)}
       actions={
         <ActionPanel>
           <Action.SubmitForm onSubmit={handleSubmit} />
@@ -181,7 +265,29 @@ export default function Command() {
           days.map((day) => <Form.Dropdown.Item key={day.toString()} value={day.toString()} title={day.toString()} />)}
       </Form.Dropdown>
 
-      <Form.TextField title="Project Name" placeholder="Enter Year and Day" {...itemProps.projectName} />
+      {hasName && (
+        <Form.TextField
+          title="Project Name"
+          info={
+            hasSlug
+              ? `Used for {slug} in the project layout: ${layout}`
+              : "Name of the project's folder, which needs the day's number in it to be found later"
+          }
+          placeholder="Enter project name"
+          {...itemProps.projectName}
+        />
+      )}
+
+      <Form.Dropdown
+        title="Template"
+        info="Template folder to copy into the project, from the templates directory in preferences"
+        isLoading={templatesLoading}
+        {...itemProps.template}
+      >
+        <Form.Dropdown.Item key="" value="" title="None" />
+        {templates &&
+          templates.map((template) => <Form.Dropdown.Item key={template} value={template} title={template} />)}
+      </Form.Dropdown>
 
       <Form.Checkbox label="Download Input" info="Download the day's input to input.txt" {...itemProps.downloadInput} />
 
@@ -193,3 +299,8 @@ export default function Command() {
     </Form>
   );
 }
+
+export default function Command(props: LaunchProps<{ launchContext?: PuzzleContext }>) {
+  const { data: profile } = useActiveProfile();
+  return profile ? <CreateProjectForm profile={profile} context={props.launchContext} /> : <Form isLoading />;
+}
@@ -0,0 +1,157 @@
+import { Action, ActionPanel, captureException, Clipboard, Form, showInFinder, showToast, Toast } from "@raycast/api";
+import { FormValidation, useForm, usePromise } from "@raycast/utils";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { AocError, getStars, useAccount } from "./util/api";
+import {
+  END_MARKER,
+  ExportFormat,
+  formatProgress,
+  getProgress,
+  START_MARKER,
+  writeBetweenMarkers,
+} from "./util/export";
+import { Profile, useActiveProfile } from "./util/profiles";
+import { withAccount } from "./util/utils";
+
+interface ExportValues {
+  format: string;
+  year: string;
+  destination: string;
+  file: string[];
+  useMarkers: boolean;
+}
+
+/** File extension for each format, for when a directory is chosen instead of a file */
+const EXTENSIONS: Record<ExportFormat, string> = { markdown: "md", json: "json", csv: "csv" };
+
+/**
+ * Work out which file to export to, since a directory can be chosen instead of a file.
+ * @param chosen - the file or directory that was chosen
+ * @param format - the format being exported
+ * @returns the path of the file to write
+ */
+async function exportPath(chosen: string, format: ExportFormat): Promise<string> {
+  const stat = await fs.stat(chosen);
+  return stat.isDirectory() ? path.join(chosen, `progress.${EXTENSIONS[format]}`) : chosen;
+}
+
+function ExportForm({ profile }: { profile: Profile }) {
+  const account = useAccount(profile.sessionToken);
+  const { isLoading, data: stars } = usePromise(getStars, [profile.sessionToken]);
+  const years = Array.from(stars?.value.keys() ?? []).toSorted((a, b) => b - a);
+
+  const { handleSubmit, itemProps, values, setValidationError } = useForm<ExportValues>({
+    async onSubmit(values) {
+      const format = values.format as ExportFormat;
+      // The file is only required for exporting to a file, so it can't use the usual validation
+      if (values.destination === "file" && !values.file?.length) {
+        setValidationError("file", "Item is required");
+        return;
+      }
+      const toast = await showToast({ style: Toast.Style.Animated, title: "Exporting progress" });
+
+      try {
+        const file = values.destination === "file" ? await exportPath(values.file[0], format) : undefined;
+        // Link projects relative to the exported file, so links work from a README next to them
+        const relativeTo = file ? path.dirname(file) : profile.projectDirectory;
+        const progress = await getProgress(
+          profile,
+          values.year === "all" ? undefined : [parseInt(values.year)],
+          relativeTo,
+        );
+        const content = formatProgress(progress, format);
+
+        toast.style = Toast.Style.Success;
+        if (!file) {
+          await Clipboard.copy(content);
+          toast.title = "Copied progress";
+        } else {
+          if (format === "markdown" && values.useMarkers) {
+            await writeBetweenMarkers(file, content);
+          } else {
+            await fs.writeFile(file, content + "\n");
+          }
+          toast.title = `Exported progress to ${path.basename(file)}`;
+          toast.primaryAction = { title: "Show in Finder", onAction: () => showInFinder(file) };
+        }
+      } catch (e) {
+        toast.style = Toast.Style.Failure;
+        toast.title = "Unable to export progress";
+        if (e instanceof AocError && e.name === "OFFLINE") {
+          toast.message = "Stars aren't cached, and offline mode is on";
+        } else if (e instanceof AocError && e.name === "SERVER_ERROR") {
+          toast.message = "Advent of Code is having trouble, so try again soon";
+        } else if (e instanceof AocError) {
+          toast.message = "Check session token in extension preferences";
+        } else {
+          captureException(e);
+        }
+      }
+    },
+    initialValues: {
+      format: "markdown",
+      year: "all",
+      destination: "clipboard",
+      useMarkers: true,
+    },
+    validation: {
+      year: FormValidation.Required,
+    },
+  });
+
+  return (
+    <Form
+      navigationTitle={withAccount("Export Progress", account?.name)}
+      isLoading={isLoading}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Export Progress" onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text="Export stars, projects and languages for each day" />
+
+      <Form.Dropdown title="Format" {...itemProps.format} storeValue>
+        <Form.Dropdown.Item value="markdown" title="Markdown Table" />
+        <Form.Dropdown.Item value="json" title="JSON" />
+        <Form.Dropdown.Item value="csv" title="CSV" />
+      </Form.Dropdown>
+
+      <Form.Dropdown title="Year" {...itemProps.year}>
+        <Form.Dropdown.Item value="all" title="All Years" />
+        {years.map((year) => (
+          <Form.Dropdown.Item key={year} value={year.toString()} title={year.toString()} />
+        ))}
+      </Form.Dropdown>
+
+      <Form.Dropdown title="Destination" {...itemProps.destination} storeValue>
+        <Form.Dropdown.Item value="clipboard" title="Clipboard" />
+        <Form.Dropdown.Item value="file" title="File" />
+      </Form.Dropdown>
+
+      {values.destination === "file" && (
+        <Form.FilePicker
+          title="File"
+          info={`A file to write to, or a directory to create progress.${EXTENSIONS[values.format as ExportFormat] ?? "md"} in`}
+          allowMultipleSelection={false}
+          canChooseDirectories
+          {...itemProps.file}
+        />
+      )}
+      {values.destination === "file" && values.format === "markdown" && (
+        <Form.Checkbox
+          label="Only replace between markers"
+          info={`Update the file in place by replacing the text between ${START_MARKER} and ${END_MARKER}, which are added at the end if they aren't there yet`}
+          {...itemProps.useMarkers}
+          storeValue
+        />
+      )}
+    </Form>
+  );
+}
+
+export default function Command() {
+  const { data: profile } = useActiveProfile();
+  return profile ? <ExportForm profile={profile} /> : <Form isLoading />;
+}
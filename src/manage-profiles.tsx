@@ -0,0 +1,182 @@
+import {
+  Action,
+  ActionPanel,
+  Alert,
+  confirmAlert,
+  Form,
+  Icon,
+  Keyboard,
+  List,
+  openExtensionPreferences,
+  showToast,
+  Toast,
+  useNavigation,
+} from "@raycast/api";
+import { FormValidation, useForm, usePromise } from "@raycast/utils";
+import { useAccount } from "./util/api";
+import {
+  DEFAULT_PROFILE_ID,
+  deleteProfile,
+  getActiveProfile,
+  getProfiles,
+  Profile,
+  saveProfile,
+  setActiveProfile,
+} from "./util/profiles";
+
+interface ProfileValues {
+  name: string;
+  sessionToken: string;
+  projectDirectory: string[];
+}
+
+interface ProfileFormProps {
+  /** The profile to edit, or undefined to add a new one */
+  profile?: Profile;
+  /** Callback to trigger once the profile is saved */
+  onSave: () => void;
+}
+
+function ProfileForm({ profile, onSave }: ProfileFormProps) {
+  const { pop } = useNavigation();
+
+  const { handleSubmit, itemProps } = useForm<ProfileValues>({
+    async onSubmit(values) {
+      await saveProfile({
+        id: profile?.id,
+        name: values.name.trim(),
+        sessionToken: values.sessionToken.trim(),
+        projectDirectory: values.projectDirectory[0],
+      });
+      showToast({ style: Toast.Style.Success, title: `Saved profile ${values.name.trim()}` });
+      onSave();
+      pop();
+    },
+    initialValues: {
+      name: profile?.name,
+      sessionToken: profile?.sessionToken,
+      projectDirectory: profile ? [profile.projectDirectory] : undefined,
+    },
+    validation: {
+      name: FormValidation.Required,
+      sessionToken: FormValidation.Required,
+      projectDirectory: FormValidation.Required,
+    },
+  });
+
+  return (
+    <Form
+      navigationTitle={profile ? `Edit ${profile.name}` : "Add Profile"}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Profile" onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField title="Name" placeholder="e.g. GitHub" {...itemProps.name} />
+      <Form.PasswordField
+        title="Session Token"
+        info={"The account's Advent of Code session token, from the website's \"session\" cookie"}
+        {...itemProps.sessionToken}
+      />
+      <Form.FilePicker
+        title="Project Directory"
+        info="Directory for the account's Advent of Code projects"
+        allowMultipleSelection={false}
+        canChooseDirectories
+        canChooseFiles={false}
+        {...itemProps.projectDirectory}
+      />
+    </Form>
+  );
+}
+
+interface ProfileItemProps {
+  profile: Profile;
+  /** Whether the profile is the one commands use */
+  isActive: boolean;
+  /** Callback to trigger when the profiles change */
+  onChange: () => void;
+}
+
+function ProfileItem({ profile, isActive, onChange }: ProfileItemProps) {
+  const account = useAccount(profile.sessionToken);
+  const isDefault = profile.id === DEFAULT_PROFILE_ID;
+
+  async function switchTo() {
+    await setActiveProfile(profile.id);
+    showToast({ style: Toast.Style.Success, title: `Switched to ${profile.name}` });
+    onChange();
+  }
+
+  async function remove() {
+    const confirmed = await confirmAlert({
+      title: `Delete ${profile.name}?`,
+      message: "Its submission history will be deleted too. Projects are kept.",
+      primaryAction: { title: "Delete", style: Alert.ActionStyle.Destructive },
+    });
+    if (confirmed) {
+      await deleteProfile(profile.id);
+      onChange();
+    }
+  }
+
+  return (
+    <List.Item
+      title={profile.name}
+      subtitle={account?.name}
+      icon={isActive ? Icon.CheckCircle : Icon.Circle}
+      accessories={[{ text: profile.projectDirectory, tooltip: "Project directory" }]}
+      actions={
+        <ActionPanel>
+          {!isActive && <Action title="Switch to Profile" icon={Icon.Switch} onAction={switchTo} />}
+          {isDefault ? (
+            <Action title="Edit in Preferences" icon={Icon.Gear} onAction={openExtensionPreferences} />
+          ) : (
+            <Action.Push
+              title="Edit Profile"
+              icon={Icon.Pencil}
+              target=<ProfileForm profile={profile} onSave={onChange} />
+              shortcut={Keyboard.Shortcut.Common.Edit}
+            />
+          )}
+          <Action.Push
+            title="Add Profile"
+            icon={Icon.Plus}
+            target=<ProfileForm onSave={onChange} />
+            shortcut={Keyboard.Shortcut.Common.New}
+          />
+          {!isDefault && (
+            <Action
+              title="Delete Profile"
+              icon={Icon.Trash}
+              style={Action.Style.Destructive}
+              onAction={remove}
+              shortcut={Keyboard.Shortcut.Common.Remove}
+            />
+          )}
+        </ActionPanel>
+      }
+    />
+  );
+}
+
+export default function Command() {
+  const { isLoading, data, revalidate } = usePromise(async () => ({
+    profiles: await getProfiles(),
+    active: await getActiveProfile(),
+  }));
+
+  return (
+    <List navigationTitle="Manage Profiles" searchBarPlaceholder="Search profiles" isLoading={isLoading}>
+      {data?.profiles.map((profile) => (
+        <ProfileItem
+          key={profile.id}
+          profile={profile}
+          isActive={profile.id === data.active.id}
+          onChange={revalidate}
+        />
+      ))}
+    </List>
+  );
+}
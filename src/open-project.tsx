@@ -1,150 +1,165 @@
-import { Action, ActionPanel, getPreferenceValues, List } from "@raycast/api";
-import { useCachedPromise, usePromise } from "@raycast/utils";
+import {
+  Action,
+  ActionPanel,
+  Alert,
+  captureException,
+  confirmAlert,
+  Form,
+  getPreferenceValues,
+  Icon,
+  Keyboard,
+  LaunchProps,
+  List,
+  open,
+  showToast,
+  Toast,
+  trash,
+  useNavigation,
+} from "@raycast/api";
+import { FormValidation, useCachedPromise, useForm, usePromise } from "@raycast/utils";
 import fs from "node:fs/promises";
 import path from "node:path";
 import { useEffect, useState } from "react";
 import os from "node:os";
-import { Project, completedDays } from "./util/projects";
-import ignore, { Ignore } from "ignore";
-import { Dirent } from "node:fs";
+import {
+  archiveProject,
+  completedDays,
+  LayoutError,
+  Project,
+  ProjectError,
+  projectLayout,
+  renameProject,
+  writeManifest,
+} from "./util/projects";
+import { PuzzleDetail } from "./components/puzzle-detail";
+import { RunSolution } from "./components/run-solution";
+import { LanguageStats } from "./components/language-stats";
+import { analyzeProjects, ProjectLanguages, pruneLanguageCache } from "./util/languages";
+import { formatDate, withAccount } from "./util/utils";
+import { AocError, saveExamples, useAccount } from "./util/api";
+import { Profile, useActiveProfile } from "./util/profiles";
+import { launchForPuzzle, PuzzleContext } from "./util/launch";
+import { getTreeMarkdown, pruneTreeCache, TreeOptions } from "./util/tree";
+import { YearDropdown } from "./components/year-dropdown";
 
-interface YearDropdownProps {
+/** Which projects to show, by year or by tag */
+type ProjectFilter = { year?: number; tag?: string };
+
+interface FilterDropdownProps {
   /** Years to show in the dropdown */
   years: number[];
-  /** Callback to trigger when the dropdown's selected year changes */
-  onChange: (newYear: number) => void;
+  /** Tags to show in the dropdown */
+  tags: string[];
+  /** Year to select, instead of the last filter selected */
+  initialYear?: number;
+  /** Callback to trigger when the dropdown's selected filter changes */
+  onChange: (filter: ProjectFilter) => void;
 }
 
-function YearDropdown({ years, onChange }: YearDropdownProps) {
+/**
+ * Dropdown for filtering by year or by tag, since lists only have room for one dropdown. Values are
+ * "all", "{year}" or "tag:{tag}".
+ */
+function FilterDropdown({ years, tags, initialYear, onChange }: FilterDropdownProps) {
   return (
-    <List.Dropdown
-      tooltip="Select Year"
-      storeValue={true}
-      defaultValue="all"
-      onChange={(val) => onChange(parseInt(val, 10))}
+    <YearDropdown
+      years={years}
+      showAll
+      tooltip="Select Year or Tag"
+      storeValue={initialYear === undefined}
+      defaultValue={initialYear?.toString() ?? "all"}
+      onChange={(val) =>
+        onChange(val.startsWith("tag:") ? { tag: val.slice("tag:".length) } : { year: parseInt(val, 10) || undefined })
+      }
     >
-      <List.Dropdown.Item key="all" title="All" value={"all"} />
-      {years.map((year) => (
-        <List.Dropdown.Item key={year} title={year.toString()} value={year.toString()} />
-      ))}
-    </List.Dropdown>
+      {tags.length > 0 && (
+        <List.Dropdown.Section title="Tags">
+          {tags.map((tag) => (
+            <List.Dropdown.Item key={tag} title={tag} value={`tag:${tag}`} icon={Icon.Tag} />
+          ))}
+        </List.Dropdown.Section>
+      )}
+    </YearDropdown>
   );
 }
 
-/**
- * Sort a and b, placing directories earlier and breaking any ties by lexicographic order.
- * @param a - file or directory in a tree
- * @param b - file or directory in a tree
- * @returns a negative number if a is smaller than b, 0 if they are equal, or a
- * positive number b is greater than a
- */
-function sortTreeEntries(a: Dirent, b: Dirent): number {
-  const aDir = a.isDirectory();
-  const bDir = b.isDirectory();
-  if (aDir && !bDir) {
-    return -1;
-  } else if (!aDir && bDir) {
-    return 1;
-  } else {
-    return a.name.localeCompare(b.name);
-  }
+interface NotesFormValues {
+  notes: string;
+  tags: string;
 }
 
-/**
- * @param dir - directory to convert to a tree
- * @param baseIgnore - files to ignore, regardless of path (from extension preferences)
- * @param ignores - the ignores we've built up from recursing through
- * directories. Includes the patterns and the directory they were found in, so
- * we can test paths relative to that directory.
- * @param indent - the current indent characters, built through recursion
- * @returns tree string starting from the given directory
- */
-async function getFileTreeString(
-  dir: string,
-  baseIgnore: Ignore,
-  ignores: [Ignore, string][],
-  respectGitignore: boolean,
-  indent: string = "",
-): Promise<string> {
-  if (respectGitignore) {
-    // Extent the ignore with the additional info
-    try {
-      const gitignorePath = path.join(dir, ".gitignore");
-      await fs.access(gitignorePath, fs.constants.R_OK);
-      const gitignoreContent = await fs.readFile(gitignorePath);
-      ignores = [...ignores, [ignore().add(gitignoreContent.toString()), dir]];
-    } catch {
-      // There's no gitignore, so just carry on with base ignore rules
-    }
-  }
-
-  const pairs = (await fs.readdir(dir, { withFileTypes: true }))
-    .filter(
-      (d) =>
-        // Always filter from bast ignore set
-        !baseIgnore.ignores(d.name) &&
-        // Also filter from set of ignores we've found while walking the tree
-        // Paths need to be relative to the directory we found the ignore rules in
-        !ignores.some(([ig, relativeTo]) => ig.ignores(path.relative(relativeTo, path.join(d.parentPath, d.name)))),
-    )
-    .toSorted(sortTreeEntries);
-
-  let treeString = "";
-  for (const [i, d] of pairs.entries()) {
-    const isLast = i === pairs.length - 1;
-
-    const name = `${d.name}${d.isDirectory() ? "/" : ""}`;
-    treeString += `${indent}${isLast ? "└─ " : "├─ "}${name}\n`;
-
-    // Recursively add children to the tree string with the appropriate indent
-    if (d.isDirectory()) {
-      const p = path.join(d.parentPath, d.name);
-      treeString += await getFileTreeString(
-        p,
-        baseIgnore,
-        ignores,
-        respectGitignore,
-        indent + (isLast ? "   " : "│  "),
-      );
-    }
-  }
-  return treeString;
+interface NotesFormProps {
+  project: Project;
+  /** Tags used by other projects, to suggest */
+  allTags: string[];
+  /** Callback to trigger once the notes and tags are saved */
+  onSave: () => void;
 }
 
-/**
- * @param dir - directory to convert to a tree
- * @returns a markdown string containing the tree for `dir`
- */
-async function getTreeMarkdown(dir: string): Promise<string> {
-  const preferences = getPreferenceValues<Preferences.OpenProject>();
-  // Remove padding and trailing slashes, so we don't have to add them as we're testing files later
-  const ignoreList = preferences.ignoreList.split(",").map((val) => val.trim().replace(/\/$/, ""));
-  const baseIgnore = ignore().add(ignoreList);
+function NotesForm({ project, allTags, onSave }: NotesFormProps) {
+  const { pop } = useNavigation();
+
+  const { handleSubmit, itemProps } = useForm<NotesFormValues>({
+    async onSubmit(values) {
+      const tags = values.tags
+        .split(",")
+        .map((tag) => tag.trim().toLowerCase())
+        .filter((tag) => tag.length > 0);
+      try {
+        await writeManifest(project.path, {
+          notes: values.notes.trim() || undefined,
+          tags: tags.length > 0 ? Array.from(new Set(tags)) : undefined,
+        });
+      } catch (e) {
+        captureException(e);
+        showToast({ style: Toast.Style.Failure, title: "Unable to save notes and tags" });
+        return;
+      }
+      showToast({ style: Toast.Style.Success, title: `Saved notes and tags for ${project.name}` });
+      onSave();
+      pop();
+    },
+    initialValues: {
+      notes: project.notes ?? "",
+      tags: project.tags?.join(", ") ?? "",
+    },
+  });
 
-  const tree = await getFileTreeString(dir, baseIgnore, [], preferences.respectGitignore);
-  return "# Tree\n```\n" + tree + "```";
+  return (
+    <Form
+      navigationTitle={`Notes & Tags for ${project.name}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Notes & Tags" onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TextArea
+        title="Notes"
+        placeholder="e.g. Used the CRT to combine the cycles"
+        enableMarkdown
+        {...itemProps.notes}
+      />
+      <Form.TextField
+        title="Tags"
+        placeholder="e.g. dijkstra, crt"
+        info={allTags.length > 0 ? `Comma-separated. Tags so far: ${allTags.join(", ")}` : "Comma-separated"}
+        {...itemProps.tags}
+      />
+    </Form>
+  );
 }
 
 /**
- * Formats dates into a short form (according to locale) like "01/01 at 12:41pm".
- * @param date - date to format
- * @returns formatted version of date
+ * Get how much of a project's tree to show.
+ * @returns the tree limits (from preferences), with defaults for any that aren't valid numbers
  */
-function formatDate(date: Date): string {
-  const datePart = date.toLocaleDateString(undefined, {
-    month: "short",
-    day: "numeric",
-    year: "numeric",
-  });
-
-  const timePart = date.toLocaleTimeString(undefined, {
-    hour: "numeric",
-    minute: "2-digit",
-    second: "2-digit",
-    hour12: true,
-  });
-
-  return `${datePart} at ${timePart}`;
+function treeOptions(): TreeOptions {
+  const preferences = getPreferenceValues<Preferences.OpenProject>();
+  return {
+    maxDepth: Math.max(1, parseInt(preferences.treeMaxDepth, 10) || 5),
+    maxEntries: Math.max(1, parseInt(preferences.treeMaxEntries, 10) || 50),
+  };
 }
 
 /**
@@ -163,6 +178,8 @@ function contractTilde(absolutePath: string): string {
 interface ProjectMetadataProps {
   /** The project the metadata is for */
   project: Project;
+  /** The languages the project is written in, if they've been detected */
+  languages?: ProjectLanguages;
   /** When the project folder was last modified */
   modified: Date;
   /** When the project folder was last accessed */
@@ -178,6 +195,25 @@ function ProjectMetadata(props: ProjectMetadataProps) {
       <List.Item.Detail.Metadata.Separator />
       <List.Item.Detail.Metadata.Label title="Full Path" text={contractTilde(props.project.path)} />
       <List.Item.Detail.Metadata.Separator />
+      {props.languages?.primary && (
+        <>
+          <List.Item.Detail.Metadata.Label
+            title="Language"
+            text={`${props.languages.primary} (${(props.languages.lines[props.languages.primary] ?? 0).toLocaleString()} lines)`}
+          />
+          <List.Item.Detail.Metadata.Separator />
+        </>
+      )}
+      {props.project.tags && (
+        <>
+          <List.Item.Detail.Metadata.TagList title="Tags">
+            {props.project.tags.map((tag) => (
+              <List.Item.Detail.Metadata.TagList.Item key={tag} text={tag} />
+            ))}
+          </List.Item.Detail.Metadata.TagList>
+          <List.Item.Detail.Metadata.Separator />
+        </>
+      )}
       <List.Item.Detail.Metadata.Label title="Created" text={formatDate(props.created)} />
       <List.Item.Detail.Metadata.Separator />
       <List.Item.Detail.Metadata.Label title="Modified" text={formatDate(props.modified)} />
@@ -188,10 +224,10 @@ function ProjectMetadata(props: ProjectMetadataProps) {
   );
 }
 
-function ProjectDetail({ day }: { day: Project }) {
+function ProjectDetail({ day, languages }: { day: Project; languages?: ProjectLanguages }) {
   // We have both promises here, because Metadata components don't have an
   // isLoading property (only the parent Detail component does)
-  const { isLoading: treeIsLoading, data: tree } = useCachedPromise(getTreeMarkdown, [day.path]);
+  const { isLoading: treeIsLoading, data: tree } = useCachedPromise(getTreeMarkdown, [day.path, treeOptions()]);
   const { isLoading: metadataIsLoading, data: metadata } = useCachedPromise(
     async (p) => {
       const stat = await fs.stat(p);
@@ -208,20 +244,192 @@ function ProjectDetail({ day }: { day: Project }) {
   return (
     <List.Item.Detail
       isLoading={isLoading}
-      markdown={tree}
-      metadata={!isLoading && metadata && <ProjectMetadata project={day} {...metadata} />}
+      markdown={day.notes && tree ? `# Notes\n${day.notes}\n\n${tree}` : tree}
+      metadata={!isLoading && metadata && <ProjectMetadata project={day} languages={languages} {...metadata} />}
     />
   );
 }
 
-export default function Command() {
+/**
+ * Save any of a project's examples that haven't been saved yet (e.g. after part 2 unlocks),
+ * reporting the result in a toast.
+ * @param year - the project's year
+ * @param project - the project to save examples in
+ * @param sessionToken - the session token, to download the puzzle
+ */
+async function saveProjectExamples(year: number, project: Project, sessionToken: string) {
+  const toast = await showToast({ style: Toast.Style.Animated, title: "Saving examples" });
+
+  try {
+    const saved = await saveExamples(year, project.day, project.path, sessionToken);
+    toast.style = Toast.Style.Success;
+    if (saved.length > 0) {
+      toast.title = `Saved ${saved.length} new example${saved.length === 1 ? "" : "s"}`;
+      toast.message = saved.map((p) => path.basename(p)).join(", ");
+    } else {
+      toast.title = "No new examples";
+    }
+  } catch (e) {
+    toast.style = Toast.Style.Failure;
+    if (e instanceof AocError && e.name === "OFFLINE") {
+      toast.title = "Unable to download examples";
+      toast.message = "Puzzle isn't cached, and offline mode is on";
+    } else if (e instanceof AocError && e.name === "SERVER_ERROR") {
+      toast.title = "Unable to download examples";
+      toast.message = "Advent of Code is having trouble, so try again soon";
+    } else if (e instanceof AocError) {
+      toast.title = "Unable to download examples";
+      toast.message = "Check session token in extension preferences";
+    } else {
+      captureException(e);
+      toast.title = "Error saving examples";
+    }
+  }
+}
+
+/**
+ * Open a project's input in the default app for text files.
+ * @param project - the project whose input to open
+ */
+async function openInput(project: Project) {
+  const input = path.join(project.path, "input.txt");
+  try {
+    await fs.access(input, fs.constants.R_OK);
+  } catch {
+    showToast({ style: Toast.Style.Failure, title: "No input.txt", message: "Download it with Create Project" });
+    return;
+  }
+  await open(input);
+}
+
+/**
+ * Move a project into the archive folder, after checking with the user.
+ * @param projectsDir - the base directory for all AoC projects
+ * @param project - the project to archive
+ * @param onChange - callback to trigger once the project is archived
+ */
+async function confirmArchive(projectsDir: string, project: Project, onChange: () => void) {
+  const confirmed = await confirmAlert({
+    title: `Archive ${project.name}?`,
+    message: "It'll be moved to the .archive folder in the project directory, and hidden from Open Project.",
+    primaryAction: { title: "Archive" },
+  });
+  if (!confirmed) {
+    return;
+  }
+
+  try {
+    const dest = await archiveProject(projectsDir, project);
+    showToast({ style: Toast.Style.Success, title: `Archived ${project.name}`, message: dest });
+    onChange();
+  } catch (e) {
+    if (e instanceof ProjectError) {
+      showToast({ style: Toast.Style.Failure, title: "Already archived", message: `Archive path: "${e.path}"` });
+    } else {
+      captureException(e);
+      showToast({ style: Toast.Style.Failure, title: "Error archiving project" });
+    }
+  }
+}
+
+/**
+ * Move a project to the trash, after checking with the user.
+ * @param project - the project to trash
+ * @param onChange - callback to trigger once the project is trashed
+ */
+async function confirmTrash(project: Project, onChange: () => void) {
+  const confirmed = await confirmAlert({
+    title: `Move ${project.name} to Trash?`,
+    message: "Its code, input and notes will be moved to the trash.",
+    primaryAction: { title: "Move to Trash", style: Alert.ActionStyle.Destructive },
+  });
+  if (!confirmed) {
+    return;
+  }
+
+  try {
+    await trash(project.path);
+    showToast({ style: Toast.Style.Success, title: `Moved ${project.name} to the trash` });
+    onChange();
+  } catch (e) {
+    captureException(e);
+    showToast({ style: Toast.Style.Failure, title: "Error moving project to the trash" });
+  }
+}
+
+interface RenameFormProps {
+  /** The project's year */
+  year: number;
+  project: Project;
+  /** Callback to trigger once the project is renamed */
+  onRename: () => void;
+}
+
+function RenameForm({ year, project, onRename }: RenameFormProps) {
+  const { pop } = useNavigation();
+
+  const { handleSubmit, itemProps, setValidationError } = useForm<{ name: string }>({
+    async onSubmit(values) {
+      try {
+        await renameProject(projectLayout(), year, project, values.name.trim());
+      } catch (e) {
+        if (e instanceof LayoutError) {
+          setValidationError("name", e.message);
+        } else if (e instanceof ProjectError) {
+          setValidationError("name", "Project with name already exists");
+        } else {
+          captureException(e);
+          showToast({ style: Toast.Style.Failure, title: "Error renaming project" });
+        }
+        return;
+      }
+      showToast({ style: Toast.Style.Success, title: `Renamed ${project.name} to ${values.name.trim()}` });
+      onRename();
+      pop();
+    },
+    initialValues: { name: project.name },
+    validation: { name: FormValidation.Required },
+  });
+
+  return (
+    <Form
+      navigationTitle={`Rename ${project.name}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Rename Project" onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        title="Name"
+        info={`The folder's new name, which has to fit the project layout (${projectLayout()}) for ${year} day ${project.day}`}
+        {...itemProps.name}
+      />
+    </Form>
+  );
+}
+
+interface ProjectListProps {
+  profile: Profile;
+  /** Puzzle to filter to and select, if launched from another command */
+  context?: PuzzleContext;
+}
+
+function ProjectList({ profile, context }: ProjectListProps) {
   const preferences = getPreferenceValues<Preferences.OpenProject>();
 
-  const { isLoading, data } = usePromise(completedDays, [preferences.projectDirectory]);
-  const [yearFilter, setYearFilter] = useState<number | null>(null);
+  const { isLoading, data, revalidate } = usePromise(completedDays, [profile.projectDirectory, projectLayout()]);
+  const account = useAccount(profile.sessionToken);
+  const [filter, setFilter] = useState<ProjectFilter>({ year: context?.year });
   const [items, setItems] = useState<[number, Project[]][]>([]);
   const [selected, setSelected] = useState<string | null>(null);
 
+  // Clean up after projects that were renamed, archived or deleted, here or outside the extension
+  useEffect(() => {
+    pruneTreeCache().catch(captureException);
+    pruneLanguageCache().catch(captureException);
+  }, []);
+
   // Sort by year - we already sort by day within each year
   useEffect(() => {
     if (!data) {
@@ -229,20 +437,56 @@ export default function Command() {
     }
 
     let filtered: [number, Project[]][] | null = null;
-    if (yearFilter) {
-      filtered = [[yearFilter, data.get(yearFilter) ?? []]];
+    if (filter.year) {
+      filtered = [[filter.year, data.get(filter.year) ?? []]];
+    } else if (filter.tag) {
+      const tag = filter.tag;
+      filtered = Array.from(data.entries())
+        .map(([year, days]): [number, Project[]] => [year, days.filter((day) => day.tags?.includes(tag))])
+        .filter(([, days]) => days.length > 0);
     }
     const values = filtered ?? Array.from(data.entries());
     values.sort((a, b) => b[0] - a[0]);
     setItems(values);
-  }, [yearFilter, data]);
+  }, [filter, data]);
+
+  const years = Array.from(data?.keys() ?? []).toSorted((a, b) => b - a);
+  const allTags = Array.from(
+    new Set(
+      Array.from(data?.values() ?? [])
+        .flat()
+        .flatMap((project) => project.tags ?? []),
+    ),
+  ).toSorted();
+
+  const { data: languages } = useCachedPromise(
+    analyzeProjects,
+    [
+      Array.from(data?.values() ?? [])
+        .flat()
+        .map((project) => project.path),
+    ],
+    // Languages are extra detail, so the list is still useful without them
+    { execute: data !== undefined, onError: () => {} },
+  );
+
+  // Select the launch context's project, if there is one
+  const contextProject =
+    context?.year !== undefined ? data?.get(context.year)?.find((project) => project.day === context.day) : undefined;
 
   return (
     <List
+      navigationTitle={withAccount("Open Project", account?.name)}
       filtering
       searchBarPlaceholder="Search for an Advent of Code project"
-      searchBarAccessory=<YearDropdown years={items.map((it) => it[0])} onChange={setYearFilter} />
+      searchBarAccessory=<FilterDropdown
+        years={years}
+        tags={allTags}
+        initialYear={context?.year}
+        onChange={setFilter}
+      />
       isLoading={isLoading}
+      selectedItemId={contextProject?.path}
       onSelectionChange={setSelected}
       isShowingDetail
     >
@@ -253,16 +497,96 @@ export default function Command() {
               id={day.path}
               key={day.path}
               title={`${year}/${day.day}`}
-              keywords={[`day ${day.day} ${year}`, `${year} day ${day.day}`, day.name]}
+              keywords={[`day ${day.day} ${year}`, `${year} day ${day.day}`, day.name, ...(day.tags ?? [])]}
               icon={{ fileIcon: day.path }}
               subtitle={{ value: day.name, tooltip: "Project name" }}
+              accessories={[
+                ...(day.tags?.map((tag) => ({ tag })) ?? []),
+                ...(languages?.[day.path]?.primary ? [{ text: languages[day.path].primary, tooltip: "Language" }] : []),
+              ]}
               actions={
                 <ActionPanel>
                   <Action.Open title="Open Project" target={day.path} application={preferences.openApp} />
                   <Action.OpenWith path={day.path} />
+                  <Action
+                    title="Open Input"
+                    icon={Icon.Document}
+                    onAction={() => openInput(day)}
+                    shortcut={{ modifiers: ["cmd", "shift"], key: "i" }}
+                  />
+                  <Action
+                    title="Open in Terminal"
+                    icon={Icon.Terminal}
+                    onAction={() => open(day.path, preferences.terminalApp ?? "com.apple.Terminal")}
+                    shortcut={{ modifiers: ["cmd"], key: "t" }}
+                  />
+                  <Action.ShowInFinder path={day.path} />
+                  <Action.CopyToClipboard
+                    title="Copy Path"
+                    content={day.path}
+                    shortcut={Keyboard.Shortcut.Common.CopyPath}
+                  />
+                  <Action.Push
+                    title="Run Solution"
+                    icon={Icon.Play}
+                    target=<RunSolution year={year} project={day} profile={profile} />
+                    shortcut={{ modifiers: ["cmd", "shift"], key: "r" }}
+                  />
+                  <Action.Push
+                    title="View Puzzle"
+                    icon={Icon.Document}
+                    target=<PuzzleDetail year={year} day={day.day} sessionToken={profile.sessionToken} />
+                    shortcut={{ modifiers: ["cmd", "shift"], key: "p" }}
+                  />
+                  <Action
+                    title={`Submit Solution for ${year}/${day.day}`}
+                    icon={Icon.Upload}
+                    onAction={() => launchForPuzzle("submit-solution", { year, day: day.day })}
+                    shortcut={{ modifiers: ["cmd", "shift"], key: "u" }}
+                  />
+                  <Action.Push
+                    title="Edit Notes & Tags"
+                    icon={Icon.Tag}
+                    target=<NotesForm project={day} allTags={allTags} onSave={revalidate} />
+                    shortcut={{ modifiers: ["cmd", "shift"], key: "t" }}
+                  />
+                  {data && (
+                    <Action.Push
+                      title="Show Language Statistics"
+                      icon={Icon.BarChart}
+                      target=<LanguageStats projects={data} />
+                      shortcut={{ modifiers: ["cmd", "shift"], key: "l" }}
+                    />
+                  )}
+                  <Action
+                    title="Save New Examples"
+                    icon={Icon.Download}
+                    onAction={() => saveProjectExamples(year, day, profile.sessionToken)}
+                    shortcut={{ modifiers: ["cmd", "shift"], key: "e" }}
+                  />
+                  <ActionPanel.Section title="Manage Project">
+                    <Action.Push
+                      title="Rename Project"
+                      icon={Icon.Pencil}
+                      target=<RenameForm year={year} project={day} onRename={revalidate} />
+                      shortcut={Keyboard.Shortcut.Common.Edit}
+                    />
+                    <Action
+                      title="Archive Project"
+                      icon={Icon.Box}
+                      onAction={() => confirmArchive(profile.projectDirectory, day, revalidate)}
+                    />
+                    <Action
+                      title="Move to Trash"
+                      icon={Icon.Trash}
+                      style={Action.Style.Destructive}
+                      onAction={() => confirmTrash(day, revalidate)}
+                      shortcut={Keyboard.Shortcut.Common.Remove}
+                    />
+                  </ActionPanel.Section>
                 </ActionPanel>
               }
-              detail={selected == day.path && <ProjectDetail day={day} />}
+              detail={selected == day.path && <ProjectDetail day={day} languages={languages?.[day.path]} />}
             />
           ))}
         </List.Section>
@@ -270,3 +594,8 @@ export default function Command() {
     </List>
   );
 }
+
+export default function Command(props: LaunchProps<{ launchContext?: PuzzleContext }>) {
+  const { data: profile } = useActiveProfile();
+  return profile ? <ProjectList profile={profile} context={props.launchContext} /> : <List isLoading />;
+}
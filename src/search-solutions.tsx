@@ -0,0 +1,238 @@
+import { Action, ActionPanel, getPreferenceValues, Icon, Keyboard, List } from "@raycast/api";
+import { usePromise } from "@raycast/utils";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { useMemo, useState } from "react";
+import { useAccount } from "./util/api";
+import { baseIgnore, lineUrl, MAX_FILE_BYTES, respectGitignore, walkFiles } from "./util/files";
+import { launchForPuzzle } from "./util/launch";
+import { Profile, useActiveProfile } from "./util/profiles";
+import { completedDays, Project, projectLayout } from "./util/projects";
+import { withAccount } from "./util/utils";
+
+/** Most matches to show at once, so common searches stay responsive */
+const MAX_MATCHES = 200;
+/** Lines to show on each side of a match in its preview */
+const PREVIEW_CONTEXT = 5;
+
+/** A file in a project, loaded for searching */
+type SolutionFile = {
+  year: number;
+  project: Project;
+  path: string;
+  /** Path of the file relative to its project */
+  relativePath: string;
+  lines: string[];
+};
+
+/** A line in a file that matches the search */
+type Match = {
+  file: SolutionFile;
+  /** Index of the matching line in the file's lines */
+  line: number;
+};
+
+/** Every file loaded for searching, and how many couldn't be read */
+type LoadedFiles = {
+  files: SolutionFile[];
+  /** Files and projects that couldn't be read, which are left out of the search */
+  skipped: number;
+};
+
+/**
+ * Read a file for searching, unless it doesn't look like code.
+ * @param file - the file to read
+ * @returns the file's lines, or undefined if it's too big or binary
+ */
+async function readSolutionFile(file: string): Promise<string[] | undefined> {
+  const stat = await fs.stat(file);
+  if (stat.size > MAX_FILE_BYTES) {
+    return undefined;
+  }
+  const content = await fs.readFile(file);
+  // Binary files have null bytes, which text files never do
+  if (content.includes(0)) {
+    return undefined;
+  }
+  return content.toString().split(/\r?\n/);
+}
+
+/**
+ * Load the contents of every file in every project, skipping ignored files and anything that
+ * doesn't look like code. Files and projects that can't be read are skipped, so one bad project
+ * doesn't stop the rest being searched.
+ * @param projectsDir - the base directory for all AoC projects
+ * @param layout - the layout template for projects (from preferences)
+ * @returns the loaded files, newest year first, and how many were skipped
+ */
+async function loadSolutionFiles(projectsDir: string, layout: string): Promise<LoadedFiles> {
+  const projects = await completedDays(projectsDir, layout);
+  const base = baseIgnore();
+  const useGitignore = respectGitignore();
+
+  const files: SolutionFile[] = [];
+  let skipped = 0;
+  const years = Array.from(projects.entries()).toSorted(([a], [b]) => b - a);
+  for (const [year, days] of years) {
+    for (const project of days) {
+      try {
+        for await (const file of walkFiles(project.path, base, useGitignore)) {
+          let lines: string[] | undefined;
+          try {
+            lines = await readSolutionFile(file);
+          } catch {
+            // Unreadable, e.g. because of its permissions or it was deleted while loading
+            skipped++;
+            continue;
+          }
+          if (lines !== undefined) {
+            files.push({ year, project, path: file, relativePath: path.relative(project.path, file), lines });
+          }
+        }
+      } catch {
+        // The project (or a folder in it) couldn't be listed, so search what was found before that
+        skipped++;
+      }
+    }
+  }
+  return { files, skipped };
+}
+
+/**
+ * Find the lines containing some text, ignoring case.
+ * @param files - the files to search
+ * @param query - the text to search for
+ * @returns the matching lines, up to `MAX_MATCHES`
+ */
+function findMatches(files: SolutionFile[], query: string): Match[] {
+  const needle = query.toLowerCase();
+  const matches: Match[] = [];
+  for (const file of files) {
+    for (const [line, text] of file.lines.entries()) {
+      if (text.toLowerCase().includes(needle)) {
+        matches.push({ file, line });
+        if (matches.length === MAX_MATCHES) {
+          return matches;
+        }
+      }
+    }
+  }
+  return matches;
+}
+
+/**
+ * Show the lines around a match, with line numbers and the matching line marked.
+ * @param match - the match to preview
+ * @returns markdown for the preview
+ */
+function previewMarkdown({ file, line }: Match): string {
+  const start = Math.max(0, line - PREVIEW_CONTEXT);
+  const end = Math.min(file.lines.length, line + PREVIEW_CONTEXT + 1);
+  const width = end.toString().length;
+  const preview = file.lines
+    .slice(start, end)
+    .map((text, i) => {
+      const n = start + i;
+      return `${n === line ? "▶" : " "} ${(n + 1).toString().padStart(width)} │ ${text}`;
+    })
+    .join("\n");
+  return `**${file.relativePath}**\n\n\`\`\`\n${preview}\n\`\`\``;
+}
+
+function MatchItem({ match }: { match: Match }) {
+  const preferences = getPreferenceValues<Preferences>();
+  const { file, line } = match;
+  const url = lineUrl(file.path, line + 1, preferences.openApp);
+
+  return (
+    <List.Item
+      title={file.lines[line].trim()}
+      subtitle={`${file.relativePath}:${line + 1}`}
+      detail=<List.Item.Detail markdown={previewMarkdown(match)} />
+      actions={
+        <ActionPanel>
+          {url ? (
+            <Action.Open title="Open at Line" icon={Icon.Code} target={url} />
+          ) : (
+            <Action.Open title="Open File" target={file.path} application={preferences.openApp} />
+          )}
+          <Action.Open
+            title="Open Project"
+            icon={Icon.Folder}
+            target={file.project.path}
+            application={preferences.openApp}
+            shortcut={Keyboard.Shortcut.Common.Open}
+          />
+          <Action.ShowInFinder path={file.path} />
+          <Action.CopyToClipboard title="Copy Line" content={file.lines[line].trim()} />
+          <Action
+            title={`Open ${file.year}/${file.project.day} in Open Project`}
+            icon={Icon.List}
+            onAction={() => launchForPuzzle("open-project", { year: file.year, day: file.project.day })}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "f" }}
+          />
+        </ActionPanel>
+      }
+    />
+  );
+}
+
+function SearchList({ profile }: { profile: Profile }) {
+  const { isLoading, data } = usePromise(loadSolutionFiles, [profile.projectDirectory, projectLayout()]);
+  const account = useAccount(profile.sessionToken);
+  const [searchText, setSearchText] = useState("");
+
+  const matches = useMemo(
+    () => (data && searchText.trim() ? findMatches(data.files, searchText.trim()) : []),
+    [data, searchText],
+  );
+
+  // Group matches by project, keeping the order they were found in
+  const sections = new Map<string, Match[]>();
+  for (const match of matches) {
+    const key = match.file.project.path;
+    sections.set(key, [...(sections.get(key) ?? []), match]);
+  }
+
+  return (
+    <List
+      navigationTitle={withAccount("Search Solutions", account?.name)}
+      searchBarPlaceholder="Search solution code"
+      filtering={false}
+      onSearchTextChange={setSearchText}
+      throttle
+      isLoading={isLoading}
+      isShowingDetail={matches.length > 0}
+    >
+      {!searchText.trim() ? (
+        <List.EmptyView
+          icon={Icon.MagnifyingGlass}
+          title="Search Solutions"
+          description={
+            data
+              ? `Search ${data.files.length} files across every project` +
+                (data.skipped > 0 ? ` (${data.skipped} couldn't be read)` : "")
+              : "Loading projects..."
+          }
+        />
+      ) : (
+        <List.EmptyView icon={Icon.MagnifyingGlass} title="No Matches" />
+      )}
+      {Array.from(sections.values()).map((projectMatches) => {
+        const { year, project } = projectMatches[0].file;
+        return (
+          <List.Section key={project.path} title={`${year}/${project.day}`} subtitle={project.name}>
+            {projectMatches.map((match) => (
+              <MatchItem key={`${match.file.path}:${match.line}`} match={match} />
+            ))}
+          </List.Section>
+        );
+      })}
+    </List>
+  );
+}
+
+export default function Command() {
+  const { data: profile } = useActiveProfile();
+  return profile ? <SearchList profile={profile} /> : <List isLoading />;
+}
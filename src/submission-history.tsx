@@ -0,0 +1,155 @@
+import { Action, ActionPanel, Color, Icon, Keyboard, List } from "@raycast/api";
+import { usePromise } from "@raycast/utils";
+import { useState } from "react";
+import { API_URL, useAccount } from "./util/api";
+import { describeOutcome, getAllSubmissions, PuzzleSubmissionRecord } from "./util/submissions";
+import { formatDate, withAccount } from "./util/utils";
+import { Profile, useActiveProfile } from "./util/profiles";
+
+/**
+ * Get the color to tag a submission's outcome with.
+ * @param record - the submission to get the color for
+ * @returns the outcome's color
+ */
+function outcomeColor(record: PuzzleSubmissionRecord): Color {
+  switch (record.outcome) {
+    case "success":
+      return Color.Green;
+    case "wrong":
+      return Color.Red;
+    case "rate-limited":
+      return Color.Orange;
+    case "already-solved":
+      return Color.Blue;
+    case "wrong-level":
+      return Color.Yellow;
+    case "unknown":
+      return Color.SecondaryText;
+  }
+}
+
+interface PuzzleDropdownProps {
+  /** Submissions to build filters from */
+  submissions: PuzzleSubmissionRecord[];
+  /** Callback to trigger when the dropdown's selected filter changes */
+  onChange: (newValue: string) => void;
+}
+
+/**
+ * Dropdown for filtering by year, or by a single day within a year. Values are "all", "{year}" or
+ * "{year}/{day}".
+ */
+function PuzzleDropdown({ submissions, onChange }: PuzzleDropdownProps) {
+  // Map from year to the days with submissions
+  const years = new Map<number, Set<number>>();
+  for (const { year, day } of submissions) {
+    years.set(year, (years.get(year) ?? new Set()).add(day));
+  }
+  const sortedYears = Array.from(years.entries()).toSorted((a, b) => b[0] - a[0]);
+
+  return (
+    <List.Dropdown tooltip="Select Year or Day" storeValue={true} defaultValue="all" onChange={onChange}>
+      <List.Dropdown.Item title="All" value="all" />
+      {sortedYears.map(([year, days]) => (
+        <List.Dropdown.Section key={year} title={year.toString()}>
+          <List.Dropdown.Item title={`All of ${year}`} value={year.toString()} />
+          {Array.from(days)
+            .toSorted((a, b) => a - b)
+            .map((day) => (
+              <List.Dropdown.Item key={day} title={`${year} Day ${day}`} value={`${year}/${day}`} />
+            ))}
+        </List.Dropdown.Section>
+      ))}
+    </List.Dropdown>
+  );
+}
+
+/**
+ * Returns whether a submission passes the dropdown's filter.
+ * @param record - the submission to check
+ * @param filter - the current filter value
+ * @returns whether the submission passes the filter
+ */
+function passesFilter(record: PuzzleSubmissionRecord, filter: string): boolean {
+  if (filter === "all") {
+    return true;
+  }
+  const [year, day] = filter.split("/").map((it) => parseInt(it, 10));
+  return record.year === year && (day === undefined || record.day === day);
+}
+
+function SubmissionDetail({ record }: { record: PuzzleSubmissionRecord }) {
+  return (
+    <List.Item.Detail
+      markdown={record.response ?? "*No response was recorded for this submission.*"}
+      metadata={
+        <List.Item.Detail.Metadata>
+          <List.Item.Detail.Metadata.Label title="Answer" text={record.answer} />
+          <List.Item.Detail.Metadata.TagList title="Outcome">
+            <List.Item.Detail.Metadata.TagList.Item text={describeOutcome(record)} color={outcomeColor(record)} />
+          </List.Item.Detail.Metadata.TagList>
+          <List.Item.Detail.Metadata.Label
+            title="Submitted"
+            text={record.timestamp ? formatDate(new Date(record.timestamp)) : "Unknown"}
+          />
+          <List.Item.Detail.Metadata.Separator />
+          <List.Item.Detail.Metadata.Label title="Puzzle" text={`${record.year}/${record.day} part ${record.part}`} />
+          {record.waitMessage && <List.Item.Detail.Metadata.Label title="Wait" text={record.waitMessage} />}
+        </List.Item.Detail.Metadata>
+      }
+    />
+  );
+}
+
+function History({ profile }: { profile: Profile }) {
+  const { isLoading, data } = usePromise(getAllSubmissions, [profile.id]);
+  const account = useAccount(profile.sessionToken);
+  const [filter, setFilter] = useState("all");
+
+  const submissions = data ?? [];
+
+  return (
+    <List
+      navigationTitle={withAccount("Submission History", account?.name)}
+      searchBarPlaceholder="Search submissions"
+      isLoading={isLoading}
+      searchBarAccessory=<PuzzleDropdown submissions={submissions} onChange={setFilter} />
+      isShowingDetail
+    >
+      {submissions
+        .filter((record) => passesFilter(record, filter))
+        .map((record, i) => (
+          <List.Item
+            key={`${record.year}/${record.day}/${record.part}/${record.timestamp ?? i}/${record.answer}`}
+            title={record.answer}
+            subtitle={`${record.year}/${record.day} part ${record.part}`}
+            keywords={[record.year.toString(), `day ${record.day}`, describeOutcome(record)]}
+            accessories={[{ tag: { value: describeOutcome(record), color: outcomeColor(record) } }]}
+            detail=<SubmissionDetail record={record} />
+            actions={
+              <ActionPanel>
+                <Action.CopyToClipboard title="Copy Answer" content={record.answer} />
+                {record.response && (
+                  <Action.CopyToClipboard
+                    title="Copy Response"
+                    content={record.response}
+                    shortcut={Keyboard.Shortcut.Common.CopyName}
+                  />
+                )}
+                <Action.OpenInBrowser
+                  title="Open Puzzle in Browser"
+                  icon={Icon.Globe}
+                  url={`${API_URL}/${record.year}/day/${record.day}`}
+                />
+              </ActionPanel>
+            }
+          />
+        ))}
+    </List>
+  );
+}
+
+export default function Command() {
+  const { data: profile } = useActiveProfile();
+  return profile ? <History profile={profile} /> : <List isLoading />;
+}
@@ -2,189 +2,202 @@ import {
   Form,
   ActionPanel,
   Action,
-  showToast,
   getPreferenceValues,
+  Icon,
+  LaunchProps,
+  showToast,
   Toast,
-  captureException,
-  launchCommand,
-  LaunchType,
-  LocalStorage,
+  useNavigation,
 } from "@raycast/api";
 import { FormValidation, useCachedPromise, useForm } from "@raycast/utils";
-import { AocError, sendSolution, useIncompleteDays, useYears } from "./util/api";
-import { removeKeys } from "./util/utils";
-
-type Values = {
-  year: string;
-  day: string;
-  part: string;
-  answer: string;
-};
+import { useRef } from "react";
+import {
+  AnswerBounds,
+  answerRejection,
+  useAccount,
+  useAnswerBounds,
+  useIncompleteDays,
+  useLockout,
+  useYears,
+} from "./util/api";
+import { formatDate, msToReadable, removeKeys, withAccount, withCachedAt } from "./util/utils";
+import { describeOutcome, getPartSubmissions, submitAnswer, Submission, SubmissionRecord } from "./util/submissions";
+import { Profile, useActiveProfile } from "./util/profiles";
+import { launchForPuzzle, PuzzleContext } from "./util/launch";
+import { PuzzleDetail } from "./components/puzzle-detail";
 
 /**
- * Handle errors, either by surfacing them as toasts if they are expected, or
- * by capturing them.
- * @param e - error to handle
+ * Describe the known bounds on an answer.
+ * @param bounds - the known bounds
+ * @returns a description of the bounds, or undefined if there are none
  */
-function handleSubmitError(e: unknown) {
-  if (e instanceof AocError) {
-    if (e.name === "RATE_LIMIT") {
-      showToast({
-        style: Toast.Style.Failure,
-        title: "Rate limit",
-        message: e.message,
-      });
-    } else if (e.name === "INVALID_SESSION_TOKEN") {
-      showToast({
-        style: Toast.Style.Failure,
-        title: "Invalid session token",
-        message: "Check session token in extension preferences",
-      });
-    } else if (e.name === "SOLVE_ERROR") {
-      showToast({
-        style: Toast.Style.Failure,
-        title: "Unable to submit answer",
-        message: e.message,
-      });
-    } else {
-      captureException(e);
-      showToast({
-        style: Toast.Style.Failure,
-        title: "Unable to submit answer",
-      });
-    }
+function boundsText(bounds: AnswerBounds): string | undefined {
+  const parts = [];
+  if (bounds.low !== undefined) {
+    parts.push(`Greater than ${bounds.low}`);
+  }
+  if (bounds.high !== undefined) {
+    parts.push(`Less than ${bounds.high}`);
   }
+  return parts.length > 0 ? parts.join(", ") : undefined;
 }
 
 /**
- * Convert from the string value to the part type, since Raycast forces
- * dropdown values to be `string`.
- * @param part - string version of part, either "1" or "2" (form validation
- * prevents other values)
+ * Describe past submissions for a part, one per line.
+ * @param records - the part's submissions
+ * @returns a description of the submissions, or undefined if there are none
  */
-function parsePart(part: string): 1 | 2 {
-  const p = parseInt(part);
-  if (p === 1 || p === 2) {
-    return p;
+function submissionsText(records: SubmissionRecord[]): string | undefined {
+  if (records.length === 0) {
+    return undefined;
   }
-  throw new Error(`Invalid part ${p}`);
+  return records
+    .map((record) => {
+      const when = record.timestamp ? ` (${formatDate(new Date(record.timestamp))})` : "";
+      return `${record.answer}: ${describeOutcome(record)}${when}`;
+    })
+    .join("\n");
 }
 
-/**
- * Get the local storage key used for a given year and day combo.
- * @param year - year to retrieve data for
- * @param day - day to retrieve data for
- * @param part - part (1 or 2) to retrieve data for
- * @returns the key used in local storage for the year, day combo
- */
-function storageKey(year: string, day: string, part: string): string {
-  return `${year}/${day}/${part}`;
+interface SubmitFormProps {
+  profile: Profile;
+  /** Puzzle to pre-fill the form with, if launched from another command */
+  context?: PuzzleContext;
 }
 
-/**
- * Log a submission in local storage, so we can retrieve the submitted answer
- * later.
- * @param values - submission form values to log
- */
-async function logSubmission(values: Values) {
-  const key = storageKey(values.year, values.day, values.part);
-  const prev = await LocalStorage.getItem(key);
-  const next = prev ? prev + "\n" + values.answer : values.answer;
-  await LocalStorage.setItem(key, next);
-}
-
-export default function Command() {
+function SubmitForm({ profile, context }: SubmitFormProps) {
   const preferences = getPreferenceValues<Preferences.SubmitSolution>();
+  const { push } = useNavigation();
 
-  const { handleSubmit, itemProps, values, reset } = useForm<Values>({
+  const { handleSubmit, itemProps, values, reset } = useForm<Submission>({
     async onSubmit(values) {
-      showToast({
-        style: Toast.Style.Animated,
-        title: "Submitting answer",
-      });
-      try {
-        const res = await sendSolution(
-          parseInt(values.year),
-          parseInt(values.day),
-          parsePart(values.part),
-          values.answer,
-          preferences.sessionToken,
-        );
-        if (res.status === "wait") {
-          showToast({
-            style: Toast.Style.Failure,
-            title: "Rate limit",
-            message: res.message,
-          });
-        } else {
-          // Save our submission, since it went through
-          logSubmission(values);
-
-          if (res.status === "success") {
-            // Respect preference for showing confetti
-            try {
-              if (preferences.showConfetti) {
-                launchCommand({
-                  name: "confetti",
-                  extensionName: "raycast",
-                  ownerOrAuthorName: "raycast",
-                  type: LaunchType.UserInitiated,
-                });
-              }
-            } catch {
-              // Not important if the command errors, since it's just for flair
-            }
-            showToast({
-              style: Toast.Style.Success,
-              title: `Solved ${values.year}/${values.day} part ${values.part}!`,
-            });
-          } else if (res.status === "wrong") {
-            showToast({
-              style: Toast.Style.Failure,
-              title: "Wrong answer",
-              message: res.message,
-            });
-          }
-        }
-      } catch (e: unknown) {
-        handleSubmitError(e);
+      const res = await submitAnswer(values, profile, preferences.showConfetti);
+      // AoC may have asked us to wait before the next submission, or told us more about the answer
+      revalidateLockout();
+      revalidateBounds();
+      revalidatePastAnswers();
+
+      // Solving part 1 unlocks part 2, so move on to it
+      if (res?.status === "success" && values.part === "1") {
+        reset({ ...values, part: "2", answer: "" });
+        const [year, day] = [parseInt(values.year), parseInt(values.day)];
+        showToast({
+          style: Toast.Style.Success,
+          title: `Solved ${values.year}/${values.day} part 1!`,
+          message: "Part 2 is unlocked",
+          primaryAction: {
+            title: "Show Part 2",
+            onAction: (toast) => {
+              toast.hide();
+              push(<PuzzleDetail year={year} day={day} sessionToken={profile.sessionToken} />);
+            },
+          },
+        });
       }
     },
     validation: {
       year: FormValidation.Required,
       day: FormValidation.Required,
-      answer: FormValidation.Required,
+      answer: (val) => {
+        if (!val || val.trim().length === 0) {
+          return "The item is required";
+        }
+        return bounds && answerRejection(bounds, val.trim());
+      },
       // Only accept parts 1 or 2 (shouldn't be an issue b/c we use a dropdown w/ a default)
       part: (val) => (val === "1" || val === "2" ? undefined : `Invalid part: part ${val}`),
     },
+    initialValues: {
+      year: context?.year?.toString(),
+    },
   });
 
+  const account = useAccount(profile.sessionToken);
+
   const { isLoading: yearsLoading, data: years } = useYears();
 
-  const { isLoading: daysLoading, data: days } = useIncompleteDays(
+  // Day and part from the launch context, which are only selected the first time days load
+  const contextPuzzle = useRef(context);
+
+  const { isLoading: daysLoading, data: incompleteDays } = useIncompleteDays(
     parseInt(values.year),
-    preferences.sessionToken,
+    profile.sessionToken,
     // Reset selected day whenever we need to load choices
-    () => reset(removeKeys(values, "day", "part")),
+    (newValue) => {
+      const { day, part } = contextPuzzle.current ?? {};
+      if (newValue === undefined) {
+        reset(removeKeys(values, "day", "part"));
+        return;
+      }
+      contextPuzzle.current = undefined;
+      if (day !== undefined && newValue.includes(day)) {
+        reset({ ...values, day: day.toString(), part: part?.toString() ?? "1" });
+      } else {
+        reset(removeKeys(values, "day", "part"));
+      }
+    },
+  );
+
+  const days = incompleteDays?.value;
+
+  const { remainingMs: lockoutMs, revalidate: revalidateLockout } = useLockout(
+    profile.id,
+    parseInt(values.year),
+    parseInt(values.day),
+  );
+
+  const { data: bounds, revalidate: revalidateBounds } = useAnswerBounds(
+    profile.id,
+    parseInt(values.year),
+    parseInt(values.day),
+    values.part === "1" ? 1 : values.part === "2" ? 2 : undefined,
   );
 
+  const boundsDescription = bounds && boundsText(bounds);
+
   // Load records of past answers, or undefined if there's nothing
-  const { isLoading: pastAnswersLoading, data: pastAnswers } = useCachedPromise(
-    async (year: string, day: string, part: string) => LocalStorage.getItem<string>(storageKey(year, day, part)),
-    [values.year, values.day, values.part],
+  const {
+    isLoading: pastAnswersLoading,
+    data: pastAnswers,
+    revalidate: revalidatePastAnswers,
+  } = useCachedPromise(
+    async (profileId: string, year: string, day: string, part: string) =>
+      year && day && (part === "1" || part === "2")
+        ? submissionsText(await getPartSubmissions(profileId, parseInt(year), parseInt(day), part === "1" ? 1 : 2))
+        : undefined,
+    [profile.id, values.year, values.day, values.part],
   );
 
   return (
     <Form
+      navigationTitle={withAccount(withCachedAt("Submit Solution", incompleteDays?.cachedAt), account?.name)}
       actions={
         <ActionPanel>
-          <Action.SubmitForm onSubmit={handleSubmit} />
+          {/* Submitting during a lockout would only extend it, so hide the action until it's over */}
+          {lockoutMs === undefined && <Action.SubmitForm onSubmit={handleSubmit} />}
+          {values.year && values.day && (
+            <Action
+              title={`Open Project for ${values.year}/${values.day}`}
+              icon={Icon.Folder}
+              onAction={() =>
+                launchForPuzzle("open-project", { year: parseInt(values.year), day: parseInt(values.day) })
+              }
+              shortcut={{ modifiers: ["cmd", "shift"], key: "f" }}
+            />
+          )}
         </ActionPanel>
       }
     >
       <Form.Description text="Submit a solution for Advent of Code" />
 
-      <Form.Dropdown title="Year" isLoading={yearsLoading} placeholder="Select Year" {...itemProps.year} storeValue>
+      <Form.Dropdown
+        title="Year"
+        isLoading={yearsLoading}
+        placeholder="Select Year"
+        {...itemProps.year}
+        // A year from the launch context takes priority over the last one used
+        storeValue={context?.year === undefined}
+      >
         {years &&
           years.map((year) => (
             <Form.Dropdown.Item key={year.toString()} value={year.toString()} title={year.toString()} />
@@ -201,6 +214,12 @@ export default function Command() {
         <Form.Dropdown.Item key={2} value={"2"} title="Part 2" />
       </Form.Dropdown>
 
+      {lockoutMs !== undefined && (
+        <Form.Description title="Rate Limit" text={`Next submission possible in: ${msToReadable(lockoutMs)}`} />
+      )}
+
+      {boundsDescription && <Form.Description title="Known Bounds" text={boundsDescription} />}
+
       <Form.Description
         title="Submissions"
         text={pastAnswersLoading ? "Loading..." : (pastAnswers ?? "No submissions made yet")}
@@ -210,3 +229,8 @@ export default function Command() {
     </Form>
   );
 }
+
+export default function Command(props: LaunchProps<{ launchContext?: PuzzleContext }>) {
+  const { data: profile } = useActiveProfile();
+  return profile ? <SubmitForm profile={profile} context={props.launchContext} /> : <Form isLoading />;
+}
@@ -0,0 +1,244 @@
+import {
+  captureException,
+  getPreferenceValues,
+  Icon,
+  launchCommand,
+  LaunchType,
+  LocalStorage,
+  MenuBarExtra,
+  open,
+} from "@raycast/api";
+import { usePromise } from "@raycast/utils";
+import {
+  API_URL,
+  AocError,
+  getCalendar,
+  getPuzzle,
+  latestPuzzle,
+  nextUnlock,
+  STARS_PER_DAY,
+  unlockTime,
+} from "./util/api";
+import { completedDaysForYear, layoutHasSlug, ProjectError, projectLayout } from "./util/projects";
+import { createProject } from "./util/scaffold";
+import { formatDate, msToReadable, slugify } from "./util/utils";
+import { Profile, profileKey, useActiveProfile } from "./util/profiles";
+import { launchForPuzzle } from "./util/launch";
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/** Longest to wait between attempts at creating a project, after it keeps failing */
+const MAX_RETRY_MS = 60 * MINUTE_MS;
+
+/** Why a project couldn't be created automatically, and when it'll be tried again */
+type AutoCreateFailure = {
+  /** What went wrong, to show in the menu */
+  message: string;
+  /** Attempts made so far */
+  attempts: number;
+  /** When to try again, in ms since the epoch, or undefined if it'll never succeed */
+  retryAt?: number;
+};
+
+/**
+ * Get the local storage key recording that a project was automatically created.
+ * @param profileId - ID of the profile the project was created for
+ * @param year - year of the project
+ * @param day - day of the project
+ * @returns the key used in local storage for the profile, year, day combo
+ */
+function autoCreatedKey(profileId: string, year: number, day: number): string {
+  return profileKey(profileId, `autoCreated/${year}/${day}`);
+}
+
+/**
+ * Whether creating a project might work if it's tried again later. AoC is often overloaded at
+ * unlock and the network can drop out, but other failures (like an invalid session token or the
+ * project already existing) would just fail again.
+ * @param e - the error creating the project failed with
+ * @returns whether to try again later
+ */
+function isTransient(e: unknown): boolean {
+  // fetch fails with a TypeError when the network is unavailable
+  return (e instanceof AocError && (e.name === "SERVER_ERROR" || e.name === "OFFLINE")) || e instanceof TypeError;
+}
+
+/**
+ * Describe why creating a project failed, for the menu.
+ * @param e - the error creating the project failed with
+ * @returns a short description of the failure
+ */
+function failureMessage(e: unknown): string {
+  if (e instanceof AocError && e.name === "INVALID_SESSION_TOKEN") {
+    return "Check session token in extension preferences";
+  } else if (e instanceof AocError && e.name === "SERVER_ERROR") {
+    return "Advent of Code is having trouble";
+  } else if (e instanceof AocError && e.name === "OFFLINE") {
+    return "Input isn't cached, and offline mode is on";
+  } else if (e instanceof ProjectError) {
+    return `${e.path} already exists`;
+  } else if (e instanceof TypeError) {
+    return "Unable to reach Advent of Code";
+  }
+  return "Unexpected error";
+}
+
+/**
+ * Create the project for a newly unlocked puzzle and open it, like Create Project would with its
+ * default values. This only happens once for each puzzle, and never if the project already exists.
+ * Failures that might not happen again are retried with a growing delay, so AoC isn't sent a
+ * request every minute.
+ *
+ * @param year - year of the puzzle
+ * @param day - day of the puzzle
+ * @param profile - the profile to create the project for
+ * @param preferences - the command's preferences
+ * @returns why the project couldn't be created, or undefined if it was (or already existed)
+ */
+async function autoCreateProject(
+  year: number,
+  day: number,
+  profile: Profile,
+  preferences: Preferences.UnlockCountdown,
+): Promise<AutoCreateFailure | undefined> {
+  const key = autoCreatedKey(profile.id, year, day);
+  // Either true once it's done, or the last failure
+  const stored = await LocalStorage.getItem<boolean | string>(key);
+  if (stored === true) {
+    return undefined;
+  }
+  const failure: AutoCreateFailure | undefined = typeof stored === "string" ? JSON.parse(stored) : undefined;
+  if (failure && (failure.retryAt === undefined || Date.now() < failure.retryAt)) {
+    return failure;
+  }
+
+  try {
+    const layout = projectLayout();
+    const existing = await completedDaysForYear(profile.projectDirectory, layout, year);
+    if (!existing.some((project) => project.day === day)) {
+      // Name the project after the puzzle, like Create Project does
+      const slug = layoutHasSlug(layout)
+        ? slugify((await getPuzzle(year, day, profile.sessionToken)).value.title)
+        : `day${day}`;
+      // Examples can be saved later from Open Project, so there's no need to report them failing
+      const project = await createProject(profile.projectDirectory, layout, year, day, slug, profile.sessionToken);
+      await open(project.path, preferences.openApp);
+    }
+  } catch (e) {
+    if (!(e instanceof AocError || e instanceof ProjectError || isTransient(e))) {
+      captureException(e);
+    }
+    const attempts = (failure?.attempts ?? 0) + 1;
+    const next: AutoCreateFailure = {
+      message: failureMessage(e),
+      attempts,
+      // Wait 2, 4, 8... minutes between attempts
+      retryAt: isTransient(e) ? Date.now() + Math.min(MAX_RETRY_MS, 2 ** attempts * MINUTE_MS) : undefined,
+    };
+    await LocalStorage.setItem(key, JSON.stringify(next));
+    return next;
+  }
+
+  await LocalStorage.setItem(key, true);
+  return undefined;
+}
+
+/**
+ * Format the time until an unlock, to the minute since the menu bar only updates every minute.
+ * @param ms - milliseconds until the unlock
+ * @returns readable version of the time, like "3h 12m"
+ */
+function formatCountdown(ms: number): string {
+  return msToReadable(Math.ceil(ms / 60000) * 60000).trim() || "0m";
+}
+
+export default function Command() {
+  const preferences = getPreferenceValues<Preferences.UnlockCountdown>();
+
+  const now = new Date();
+  const next = nextUnlock(now);
+  const latest = latestPuzzle(now);
+  // The latest puzzle is only "today's" puzzle for the day after it unlocks
+  const today = now.getTime() - unlockTime(latest.year, latest.day).getTime() < DAY_MS ? latest : undefined;
+
+  const { isLoading: profileLoading, data: profile } = useActiveProfile();
+
+  const { isLoading: starsLoading, data: calendar } = usePromise(
+    getCalendar,
+    [today?.year ?? latest.year, profile?.sessionToken ?? ""],
+    { execute: today !== undefined && profile !== undefined },
+  );
+  const todayStars = today && calendar?.value.days.find((it) => it.day === today.day)?.stars;
+
+  const { isLoading: createLoading, data: createFailure } = usePromise(
+    async (year: number, day: number, profile: Profile | undefined) =>
+      profile && autoCreateProject(year, day, profile, preferences),
+    [today?.year ?? latest.year, today?.day ?? latest.day, profile],
+    {
+      execute: preferences.autoCreate && today !== undefined && profile !== undefined,
+      onError: captureException,
+    },
+  );
+
+  const countdown = formatCountdown(next.time.getTime() - now.getTime());
+
+  return (
+    <MenuBarExtra
+      icon="aoc-icon.png"
+      title={countdown}
+      tooltip={`${next.year} day ${next.day} unlocks in ${countdown}`}
+      isLoading={profileLoading || starsLoading || createLoading}
+    >
+      <MenuBarExtra.Section title="Next Puzzle">
+        <MenuBarExtra.Item
+          title={`${next.year} Day ${next.day}`}
+          subtitle={`in ${countdown}, ${formatDate(next.time)}`}
+          icon={Icon.Clock}
+          onAction={() => open(`${API_URL}/${next.year}`)}
+        />
+      </MenuBarExtra.Section>
+      {today && (
+        <MenuBarExtra.Section title="Today">
+          <MenuBarExtra.Item
+            title={`${today.year} Day ${today.day}`}
+            subtitle={
+              todayStars === undefined ? undefined : "★".repeat(todayStars) + "☆".repeat(STARS_PER_DAY - todayStars)
+            }
+            icon={Icon.Star}
+            onAction={() => open(`${API_URL}/${today.year}/day/${today.day}`)}
+          />
+          <MenuBarExtra.Item
+            title="View Puzzle"
+            icon={Icon.Document}
+            onAction={() =>
+              launchCommand({
+                name: "view-puzzle",
+                type: LaunchType.UserInitiated,
+                arguments: { year: today.year.toString(), day: today.day.toString() },
+              })
+            }
+          />
+          <MenuBarExtra.Item
+            title="Create Project"
+            icon={Icon.NewFolder}
+            onAction={() => launchForPuzzle("create-project", today)}
+          />
+          {createFailure && (
+            <MenuBarExtra.Item
+              title="Couldn't Create Project Automatically"
+              subtitle={
+                createFailure.retryAt === undefined
+                  ? createFailure.message
+                  : `${createFailure.message}, retrying at ${formatDate(new Date(createFailure.retryAt))}`
+              }
+              tooltip="Create the project yourself instead"
+              icon={Icon.Warning}
+              onAction={() => launchForPuzzle("create-project", today)}
+            />
+          )}
+        </MenuBarExtra.Section>
+      )}
+    </MenuBarExtra>
+  );
+}
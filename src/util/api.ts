@@ -1,10 +1,15 @@
 import fs from "node:fs/promises";
 import { CachedPromiseOptions, useCachedPromise } from "@raycast/utils";
 import * as cheerio from "cheerio";
-import { pathDoesntExist, Project } from "./projects";
+import { pathDoesntExist, Project, ProjectError } from "./projects";
 import path from "node:path";
-import { useRef } from "react";
+import { useEffect, useRef, useState } from "react";
+import { LocalStorage } from "@raycast/api";
 import { FunctionReturningPromise, UnwrapReturn } from "@raycast/utils/dist/types";
+import { htmlToMarkdown, stripHeadingDashes } from "./markdown";
+import { msToReadable } from "./utils";
+import { Cached, cachedFetch, clearCache, isOffline, OfflineError } from "./cache";
+import { Profile, profileKey } from "./profiles";
 
 export const API_URL = "https://adventofcode.com";
 
@@ -33,11 +38,7 @@ const unauthenticatedOptions = {
   },
 };
 
-let canSubmit = true;
-let delayStart = 0;
-let delayAmount = 0;
-
-type AocErrorName = "INVALID_SESSION_TOKEN" | "SOLVE_ERROR" | "RATE_LIMIT";
+type AocErrorName = "INVALID_SESSION_TOKEN" | "SOLVE_ERROR" | "RATE_LIMIT" | "OFFLINE" | "SERVER_ERROR";
 
 export class AocError extends Error {
   name: AocErrorName;
@@ -48,13 +49,122 @@ export class AocError extends Error {
   }
 }
 
+/**
+ * Get the HTTP status of a failed request to AoC.
+ * @param e - the error the request failed with
+ * @returns the response's status code, or undefined if the request didn't get a response
+ */
+function errorStatus(e: unknown): number | undefined {
+  const status = e instanceof Error ? parseInt(e.message, 10) : NaN;
+  return Number.isNaN(status) ? undefined : status;
+}
+
 function handleErrors(e: unknown): never {
-  if (e instanceof Error && (e.message === "400" || e.message === "500")) {
+  const status = errorStatus(e);
+  if (status === 400) {
+    // AoC responds with a 400 for cookies it can't make sense of
     throw new AocError("INVALID_SESSION_TOKEN");
+  } else if (status !== undefined && status >= 500) {
+    // AoC is often overloaded right as puzzles unlock, which isn't the session token's fault
+    throw new AocError("SERVER_ERROR", `Advent of Code responded with ${status}`);
+  } else if (e instanceof OfflineError) {
+    throw new AocError("OFFLINE", e.message);
   }
   throw e;
 }
 
+/** The AoC account a session token belongs to */
+export type Account = {
+  /** The account's display name (anonymous users have a name like "(anonymous user #1234)") */
+  name: string;
+  /** Whether the account is an AoC++ supporter */
+  supporter: boolean;
+};
+
+/**
+ * Read the logged-in account from the header of an AoC page.
+ * @param $ - the loaded page
+ * @returns the logged-in account, or undefined if the page was loaded while logged out
+ */
+function parseAccount($: cheerio.CheerioAPI): Account | undefined {
+  const user = $("header .user");
+  if (user.length === 0) {
+    return undefined;
+  }
+  // The name is the user element's own text, without the supporter badge or star count
+  const name = user
+    .contents()
+    .filter((_, el) => el.type === "text")
+    .text()
+    .trim();
+  return { name, supporter: user.find(".supporter-badge").length > 0 };
+}
+
+/**
+ * Make sure an authenticated page was loaded while logged in. AoC serves pages to logged out users
+ * with a 200, so the status code alone can't tell us the session token has expired.
+ * @param $ - the loaded page
+ */
+function assertLoggedIn($: cheerio.CheerioAPI) {
+  if (!parseAccount($)) {
+    throw new AocError("INVALID_SESSION_TOKEN", "Session token has expired");
+  }
+}
+
+export type SessionStatus =
+  { status: "valid"; account: Account } | { status: "expired" } | { status: "malformed" } | { status: "unavailable" };
+
+/** AoC session tokens are long hex strings (currently 128 characters) */
+const SESSION_TOKEN_REGEX = /^[0-9a-f]{64,}$/i;
+
+/**
+ * Check whether a session token is valid, by loading an authenticated page and reading the
+ * account from its header.
+ *
+ * @param sessionToken - user's AoC session token
+ * @param refresh - whether to skip the cache, to be sure the token is still valid
+ * @returns whether the token is valid (with its account), expired, or malformed, or that AoC couldn't
+ * check it
+ */
+export async function verifySession(sessionToken: string, refresh: boolean = false): Promise<SessionStatus> {
+  if (!SESSION_TOKEN_REGEX.test(sessionToken)) {
+    return { status: "malformed" };
+  }
+
+  try {
+    const { value: body } = await cachedFetch(
+      `${API_URL}/events`,
+      authenticatedOptions(sessionToken).headers,
+      "stars",
+      refresh,
+    );
+    const account = parseAccount(cheerio.load(body));
+    return account ? { status: "valid", account } : { status: "expired" };
+  } catch (e: unknown) {
+    // AoC responds with an error for cookies it can't make sense of
+    const status = errorStatus(e);
+    if (status === 400) {
+      return { status: "malformed" };
+    } else if (status !== undefined && status >= 500) {
+      return { status: "unavailable" };
+    }
+    handleErrors(e);
+  }
+}
+
+/**
+ * Get the account for a session token, e.g. to show in navigation titles.
+ * @param sessionToken - user's AoC session token
+ * @returns the account, or undefined while loading or if the token isn't valid
+ */
+export function useAccount(sessionToken: string): Account | undefined {
+  const { data } = useCachedPromise(verifySession, [sessionToken], {
+    // Commands report session problems themselves, so this shouldn't add to them
+    onError: () => {},
+  });
+  return data?.status === "valid" ? data.account : undefined;
+}
+
 /**
  * Download and save input for the given year and day to `input.txt` in the given project path.
  *
@@ -73,13 +183,11 @@ export async function saveInput(year: number, day: number, projectPath: string,
 
   // The file doesn't exist yet, so continue
   try {
-    const res = await fetch(`${API_URL}/${year}/day/${day}/input`, authenticatedOptions(sessionToken));
-
-    if (res.status !== 200) {
-      throw new Error(String(res.status));
-    }
-
-    const text = await res.text();
+    const { value: text } = await cachedFetch(
+      `${API_URL}/${year}/day/${day}/input`,
+      authenticatedOptions(sessionToken).headers,
+      "input",
+    );
     await fs.writeFile(inputPath, text.replace(/\n$/, ""));
   } catch (e: unknown) {
     handleErrors(e);
@@ -90,19 +198,18 @@ export async function saveInput(year: number, day: number, projectPath: string,
  * Get the number of stars the user has for each year.
  *
  * @param sessionToken - user's AoC session token
- * @return map from year to stars for the year
+ * @return map from year to stars for the year, with when it was cached if it came from the cache
  */
-export async function getStars(sessionToken: string): Promise<Map<number, number>> {
+export async function getStars(sessionToken: string): Promise<Cached<Map<number, number>>> {
   try {
-    const res = await fetch(`${API_URL}/events`, authenticatedOptions(sessionToken));
-
-    if (res.status !== 200) {
-      throw new Error(String(res.status));
-    }
-
-    const body = await res.text();
+    const { value: body, cachedAt } = await cachedFetch(
+      `${API_URL}/events`,
+      authenticatedOptions(sessionToken).headers,
+      "stars",
+    );
     const $ = cheerio.load(body);
-    return new Map(
+    assertLoggedIn($);
+    const stars = new Map(
       $(".eventlist-event")
         .map((_, el) => $(el).text())
         .toArray()
@@ -113,29 +220,62 @@ export async function getStars(sessionToken: string): Promise<Map<number, number
           return [year, stars];
         }),
     );
+    return { value: stars, cachedAt };
   } catch (e: unknown) {
     handleErrors(e);
   }
 }
 
+/** A day in an event's calendar */
+export type CalendarDay = {
+  day: number;
+  /** When the day's puzzle unlocks (or unlocked) */
+  unlockTime: Date;
+  /** Whether the puzzle has unlocked yet */
+  unlocked: boolean;
+  /** Stars the user has for the day */
+  stars: number;
+};
+
+/** An event's puzzles, from its calendar page */
+export type Calendar = {
+  year: number;
+  /** Every day in the event, including ones that haven't unlocked yet */
+  days: CalendarDay[];
+  /** Most stars it's possible to get in the event */
+  maxStars: number;
+  /** The calendar's ASCII art, with a `*` for each star the user has next to each day */
+  art: string;
+};
+
+/** Stars available for each day's puzzle, one for each part */
+export const STARS_PER_DAY = 2;
+
 /**
- * Get the number of stars the user has for each day in a given year.
+ * Get the calendar for a year, with how many days the event has, when each unlocks and the user's
+ * stars for each.
  *
- * @param year - the year to get stars for
+ * @param year - the year to get the calendar for
  * @param sessionToken - user's AoC session token
- * @return map from day to stars for the day
+ * @param now - the time to check whether days have unlocked at
+ * @return the year's calendar, with when it was cached if it came from the cache
  */
-export async function getStarsForYear(year: number, sessionToken: string): Promise<Map<number, number>> {
+export async function getCalendar(
+  year: number,
+  sessionToken: string,
+  now: Date = new Date(),
+): Promise<Cached<Calendar>> {
   try {
-    const res = await fetch(`${API_URL}/${year}`, authenticatedOptions(sessionToken));
-
-    if (res.status !== 200) {
-      throw new Error(String(res.status));
-    }
-
-    const body = await res.text();
+    const { value: body, cachedAt } = await cachedFetch(
+      `${API_URL}/${year}`,
+      authenticatedOptions(sessionToken).headers,
+      "stars",
+    );
     const $ = cheerio.load(body);
-    return new Map(
+    assertLoggedIn($);
+
+    // Unlocked days are links, which say how many stars the user has for the day
+    const stars = new Map(
       $(".calendar a")
         .map((_, el) => {
           const e = $(el);
@@ -151,43 +291,478 @@ export async function getStarsForYear(year: number, sessionToken: string): Promi
         .toArray()
         .map(({ day, stars }) => [day, stars]),
     );
+
+    // Days that haven't unlocked may not be drawn yet, so fall back to the usual number of days
+    const drawnDays = $(".calendar [class*='calendar-day']")
+      .toArray()
+      .map((el) => parseInt(/calendar-day(\d+)/.exec($(el).attr("class") ?? "")?.[1] ?? "0"));
+    const dayCount = Math.max(defaultDayCount(year), ...drawnDays, ...stars.keys());
+
+    const days = Array.from({ length: dayCount }, (_, i) => {
+      const day = i + 1;
+      const time = unlockTime(year, day);
+      return { day, unlockTime: time, unlocked: stars.has(day) || time <= now, stars: stars.get(day) ?? 0 };
+    });
+    return { value: { year, days, maxStars: dayCount * STARS_PER_DAY, art: calendarArt($, stars) }, cachedAt };
+  } catch (e: unknown) {
+    handleErrors(e);
+  }
+}
+
+/**
+ * Get the text of a calendar's ASCII art. Every day has marks for both stars, which AoC only
+ * colours in with CSS, so the marks for stars the user doesn't have are blanked out to keep the
+ * art lined up.
+ *
+ * @param $ - the loaded calendar page
+ * @param stars - map from day to the user's stars for it
+ * @returns the calendar's art, without leading or trailing blank lines
+ */
+function calendarArt($: cheerio.CheerioAPI, stars: Map<number, number>): string {
+  const calendar = $("pre.calendar").first().clone();
+  calendar.find("script, style").remove();
+  calendar.find("[class*='calendar-day']").each((_, el) => {
+    const day = parseInt(/calendar-day(\d+)/.exec($(el).attr("class") ?? "")?.[1] ?? "0");
+    const dayStars = stars.get(day) ?? 0;
+    $(el)
+      .find(".calendar-mark-complete")
+      .text(dayStars >= 1 ? "*" : " ");
+    $(el)
+      .find(".calendar-mark-verycomplete")
+      .text(dayStars >= 2 ? "*" : " ");
+  });
+  return calendar
+    .text()
+    .replace(/^\s*\n/, "")
+    .trimEnd();
+}
+
+/** Offset of AoC's unlock timezone (EST, UTC-5) from UTC, in milliseconds */
+const UNLOCK_OFFSET_MS = -5 * 60 * 60 * 1000;
+
+/** First event with fewer than 25 puzzles, so every event before it is known to have had 25 */
+const FIRST_SHORT_EVENT = 2025;
+
+/**
+ * Get how many puzzles an event usually has, for when its calendar isn't available. Events had 25
+ * puzzles until 2025, when they changed to 12.
+ *
+ * @param year - the event's year
+ * @returns the number of puzzles in the event
+ */
+export function defaultDayCount(year: number): number {
+  return year >= FIRST_SHORT_EVENT ? 12 : 25;
+}
+
+/**
+ * Get the most stars it's possible to get in an event, for when its calendar isn't available.
+ *
+ * @param year - the event's year
+ * @returns the number of stars in the event
+ */
+export function defaultMaxStars(year: number): number {
+  return defaultDayCount(year) * STARS_PER_DAY;
+}
+
+/**
+ * Get how many puzzles each event has. Only events since the puzzle count changed can differ from
+ * the usual count, so only their calendars are loaded, one at a time to go easy on AoC.
+ *
+ * @param years - the events to get the number of puzzles for
+ * @param sessionToken - user's AoC session token
+ * @returns map from year to the number of puzzles in the event, which is the usual number for events
+ * whose calendar can't be loaded
+ */
+export async function getDayCounts(years: number[], sessionToken: string): Promise<Record<number, number>> {
+  const counts: Record<number, number> = {};
+  for (const year of years) {
+    if (year < FIRST_SHORT_EVENT) {
+      counts[year] = defaultDayCount(year);
+      continue;
+    }
+    try {
+      counts[year] = (await getCalendar(year, sessionToken)).value.days.length;
+    } catch {
+      // The usual number of puzzles is close enough to show progress with
+      counts[year] = defaultDayCount(year);
+    }
+  }
+  return counts;
+}
+
+/**
+ * Get the most recent puzzle that has unlocked, based on puzzles unlocking at midnight EST from
+ * December 1st until the event's last day.
+ *
+ * @param now - the time to find the latest puzzle for
+ * @returns year and day of the latest unlocked puzzle
+ */
+export function latestPuzzle(now: Date = new Date()): { year: number; day: number } {
+  const est = new Date(now.getTime() + UNLOCK_OFFSET_MS);
+  const year = est.getUTCFullYear();
+  if (est.getUTCMonth() === 11) {
+    return { year, day: Math.min(est.getUTCDate(), defaultDayCount(year)) };
+  }
+  return { year: year - 1, day: defaultDayCount(year - 1) };
+}
+
+/**
+ * Get when a puzzle unlocks, which is midnight EST on its day in December.
+ *
+ * @param year - puzzle's year
+ * @param day - puzzle's day
+ * @returns the time the puzzle unlocks
+ */
+export function unlockTime(year: number, day: number): Date {
+  return new Date(Date.UTC(year, 11, day) - UNLOCK_OFFSET_MS);
+}
+
+/**
+ * Get the next puzzle to unlock.
+ *
+ * @param now - the time to find the next puzzle for
+ * @returns year, day and unlock time of the next puzzle
+ */
+export function nextUnlock(now: Date = new Date()): { year: number; day: number; time: Date } {
+  const latest = latestPuzzle(now);
+  // After the last puzzle of a year, the next is the first of the following year
+  const [year, day] = latest.day < defaultDayCount(latest.year) ? [latest.year, latest.day + 1] : [latest.year + 1, 1];
+  const time = unlockTime(year, day);
+  return { year, day, time };
+}
+
+/** A single part of a puzzle's description */
+export type PuzzlePart = {
+  /** The part's description, as markdown */
+  markdown: string;
+  /** The user's accepted answer for the part, if they have solved it */
+  answer?: string;
+};
+
+export type Puzzle = {
+  /** The puzzle's title, like "Day 1: Trebuchet?!" */
+  title: string;
+  /** Parts that are visible to the user (part 2 only appears after solving part 1) */
+  parts: PuzzlePart[];
+};
+
+/**
+ * Load the puzzle page for the given year and day. Errors are left for the caller to handle.
+ *
+ * @param year - puzzle's year
+ * @param day - puzzle's day
+ * @param sessionToken - user's AoC session token
+ * @returns the loaded page, with when it was cached if it came from the cache
+ */
+async function loadPuzzlePage(year: number, day: number, sessionToken: string): Promise<Cached<cheerio.CheerioAPI>> {
+  const { value: body, cachedAt } = await cachedFetch(
+    `${API_URL}/${year}/day/${day}`,
+    authenticatedOptions(sessionToken).headers,
+    "puzzle",
+  );
+  return { value: cheerio.load(body), cachedAt };
+}
+
+/**
+ * Get the puzzle description for the given year and day, converted to markdown.
+ *
+ * @param year - puzzle's year
+ * @param day - puzzle's day
+ * @param sessionToken - user's AoC session token
+ * @returns the puzzle's title and the markdown for each visible part, with when it was cached if it
+ * came from the cache
+ */
+export async function getPuzzle(year: number, day: number, sessionToken: string): Promise<Cached<Puzzle>> {
+  try {
+    const { value: $, cachedAt } = await loadPuzzlePage(year, day, sessionToken);
+    const articles = $("article.day-desc");
+    const title = stripHeadingDashes(articles.first().find("h2").first().text()) || `Day ${day}`;
+
+    const parts = articles.toArray().map((article) => {
+      // Solved parts are followed by a paragraph with the accepted answer
+      const answerParagraph = $(article).next("p");
+      const answer = answerParagraph.text().includes("Your puzzle answer was")
+        ? answerParagraph.find("code").first().text()
+        : undefined;
+      return { markdown: htmlToMarkdown($, $(article), `${API_URL}/${year}/day/${day}`), answer };
+    });
+
+    return { value: { title, parts }, cachedAt };
   } catch (e: unknown) {
     handleErrors(e);
   }
 }
 
-type SolveStatus = { status: "success" } | { status: "wrong"; message: string } | { status: "wait"; message: string };
+/**
+ * Save the example inputs (`<pre><code>` blocks) from a puzzle's description as `example.txt`,
+ * `example2.txt`, etc. in the given project path. Examples that were already saved are skipped, so
+ * this can be called again once part 2 unlocks to save any new examples.
+ *
+ * @param year - puzzle's year
+ * @param day - puzzle's day
+ * @param projectPath - directory to save the examples in
+ * @param sessionToken - user's AoC session token
+ * @returns the paths of the newly saved examples
+ */
+export async function saveExamples(
+  year: number,
+  day: number,
+  projectPath: string,
+  sessionToken: string,
+): Promise<string[]> {
+  // Project folder should exist already
+  await fs.access(projectPath, fs.constants.R_OK | fs.constants.W_OK);
+
+  let examples: string[];
+  try {
+    const { value: $ } = await loadPuzzlePage(year, day, sessionToken);
+    examples = $("article.day-desc pre > code")
+      .map((_, el) => $(el).text())
+      .toArray();
+  } catch (e: unknown) {
+    handleErrors(e);
+  }
+
+  const saved = [];
+  for (const [i, example] of examples.entries()) {
+    const examplePath = path.join(projectPath, i === 0 ? "example.txt" : `example${i + 1}.txt`);
+    try {
+      await pathDoesntExist(examplePath);
+    } catch (e: unknown) {
+      if (e instanceof ProjectError) {
+        // Never overwrite an example, since the user may have edited it
+        continue;
+      }
+      throw e;
+    }
+    await fs.writeFile(examplePath, example.replace(/\n$/, ""));
+    saved.push(examplePath);
+  }
+  return saved;
+}
+
+/** Raw member data from AoC's private leaderboard JSON */
+type RawLeaderboardMember = {
+  id: number;
+  name: string | null;
+  stars: number;
+  local_score: number;
+  global_score: number;
+  last_star_ts: number;
+  completion_day_level: Record<string, Record<string, { get_star_ts: number; star_index: number }>>;
+};
+
+/** Times a member earned each star for a day */
+export type DayCompletion = {
+  part1?: Date;
+  part2?: Date;
+};
+
+export type LeaderboardMember = {
+  id: number;
+  /** Member's display name (AoC allows anonymous users, which have no name) */
+  name: string;
+  stars: number;
+  localScore: number;
+  globalScore: number;
+  /** When the member last earned a star, if they've earned any */
+  lastStar?: Date;
+  /** Map from day to the times the member completed each part */
+  completion: Map<number, DayCompletion>;
+};
+
+export type Leaderboard = {
+  id: number;
+  ownerId: number;
+  year: number;
+  /** Members, sorted by local score */
+  members: LeaderboardMember[];
+};
+
+/**
+ * Convert a timestamp from AoC's JSON (in seconds) to a date.
+ * @param ts - timestamp in seconds since the epoch
+ * @returns the corresponding date, or undefined for AoC's "never" value of 0
+ */
+function fromTimestamp(ts: number | undefined): Date | undefined {
+  return ts ? new Date(ts * 1000) : undefined;
+}
+
+/**
+ * Get a private leaderboard for a given year. AoC asks that this isn't requested more than once
+ * every 15 minutes, which the cache takes care of.
+ *
+ * @param year - the year to get the leaderboard for
+ * @param id - the leaderboard's ID (the owner's user ID)
+ * @param sessionToken - user's AoC session token, which must have access to the leaderboard
+ * @returns the leaderboard, with members sorted by local score, and when it was cached if it came
+ * from the cache
+ */
+export async function getLeaderboard(year: number, id: number, sessionToken: string): Promise<Cached<Leaderboard>> {
+  try {
+    const res = await cachedFetch(
+      `${API_URL}/${year}/leaderboard/private/view/${id}.json`,
+      authenticatedOptions(sessionToken).headers,
+      "leaderboard",
+    );
+
+    // Without access, AoC redirects to an HTML page instead of returning JSON
+    if (!res.contentType.includes("application/json")) {
+      throw new AocError("INVALID_SESSION_TOKEN", `No access to leaderboard ${id}`);
+    }
+
+    const body = JSON.parse(res.value) as { owner_id: number; members: Record<string, RawLeaderboardMember> };
+    const members = Object.values(body.members).map((m) => ({
+      id: m.id,
+      name: m.name ?? `(anonymous user #${m.id})`,
+      stars: m.stars,
+      localScore: m.local_score,
+      globalScore: m.global_score,
+      lastStar: fromTimestamp(m.last_star_ts),
+      completion: new Map(
+        Object.entries(m.completion_day_level).map(([day, parts]) => [
+          parseInt(day, 10),
+          { part1: fromTimestamp(parts["1"]?.get_star_ts), part2: fromTimestamp(parts["2"]?.get_star_ts) },
+        ]),
+      ),
+    }));
+    members.sort((a, b) => b.localScore - a.localScore || b.stars - a.stars);
+
+    return { value: { id, ownerId: body.owner_id, year, members }, cachedAt: res.cachedAt };
+  } catch (e: unknown) {
+    handleErrors(e);
+  }
+}
+
+/** The user's result for a single part, from their personal leaderboard */
+export type PartResult = {
+  /** Time from the puzzle unlocking to solving the part, as AoC shows it (like "00:21:35" or ">24h") */
+  time: string;
+  /** The time in seconds, if AoC gave an exact time */
+  seconds?: number;
+  rank?: number;
+  score?: number;
+};
+
+/** The user's results for a day, from their personal leaderboard */
+export type DayResult = {
+  day: number;
+  part1?: PartResult;
+  part2?: PartResult;
+};
+
+/**
+ * Parse a time from the personal leaderboard, like "01:02:03", into seconds.
+ * @param time - the time as AoC shows it
+ * @returns the time in seconds, or undefined if it isn't exact (like ">24h")
+ */
+function parseSolveTime(time: string): number | undefined {
+  const m = /^(\d+):(\d{2}):(\d{2})$/.exec(time);
+  return m ? parseInt(m[1], 10) * 3600 + parseInt(m[2], 10) * 60 + parseInt(m[3], 10) : undefined;
+}
+
+/**
+ * Parse one part's columns from a row of the personal leaderboard.
+ * @param columns - the header's names for the part's columns, like ["Time", "Rank", "Score"]
+ * @param values - the row's values for the part's columns
+ * @returns the part's result, or undefined if the part isn't solved
+ */
+function parsePartResult(columns: string[], values: string[]): PartResult | undefined {
+  const value = (name: string) => {
+    const v = values[columns.indexOf(name)];
+    return v === undefined || v === "-" ? undefined : v;
+  };
+  const time = value("Time");
+  if (time === undefined) {
+    return undefined;
+  }
+
+  const rank = value("Rank");
+  const score = value("Score");
+  return {
+    time,
+    seconds: parseSolveTime(time),
+    rank: rank !== undefined ? parseInt(rank, 10) : undefined,
+    score: score !== undefined ? parseInt(score, 10) : undefined,
+  };
+}
+
+/**
+ * Get the user's times and ranks for each day of a year, from their personal leaderboard.
+ *
+ * @param year - the year to get results for
+ * @param sessionToken - user's AoC session token
+ * @returns map from day to the user's results, with when it was cached if it came from the cache
+ */
+export async function getPersonalResults(year: number, sessionToken: string): Promise<Cached<Map<number, DayResult>>> {
+  try {
+    const { value: body, cachedAt } = await cachedFetch(
+      `${API_URL}/${year}/leaderboard/self`,
+      authenticatedOptions(sessionToken).headers,
+      "stars",
+    );
+    const $ = cheerio.load(body);
+    assertLoggedIn($);
+
+    // The results are a plain text table, with a header naming the columns for each part
+    const lines = $("main pre").text().split("\n");
+    const header = lines.find((line) => line.trim().startsWith("Day"));
+    const columns = header?.trim().split(/\s+/).slice(1) ?? [];
+    const perPart = columns.length / 2;
+
+    const results = new Map<number, DayResult>();
+    for (const line of lines) {
+      const [day, ...values] = line.trim().split(/\s+/);
+      if (!/^\d+$/.test(day)) {
+        continue;
+      }
+      results.set(parseInt(day, 10), {
+        day: parseInt(day, 10),
+        part1: parsePartResult(columns.slice(0, perPart), values.slice(0, perPart)),
+        part2: parsePartResult(columns.slice(perPart), values.slice(perPart)),
+      });
+    }
+    return { value: results, cachedAt };
+  } catch (e: unknown) {
+    handleErrors(e);
+  }
+}
+
+/** AoC's hint about which direction a wrong answer is off in */
+export type AnswerHint = "high" | "low";
+
+export type SolveStatus =
+  | { status: "success"; message: string }
+  | { status: "wrong"; message: string; hint?: AnswerHint }
+  | { status: "wait"; message: string }
+  /** The part was solved before, so AoC didn't check the answer */
+  | { status: "already-solved"; message: string }
+  /** The part can't be answered yet, e.g. part 2 before part 1 */
+  | { status: "wrong-level"; message: string }
+  /** The answer earned the event's final star, so AoC shows its closing page instead */
+  | { status: "day-complete"; message: string };
 
 const SolveStatus = {
-  Success(): SolveStatus {
-    return { status: "success" };
+  Success(message: string): SolveStatus {
+    return { status: "success", message };
   },
-  Wrong(message: string): SolveStatus {
-    return { status: "wrong", message };
+  Wrong(message: string, hint?: AnswerHint): SolveStatus {
+    return { status: "wrong", message, hint };
   },
   Wait(message: string): SolveStatus {
     return { status: "wait", message };
   },
+  AlreadySolved(message: string): SolveStatus {
+    return { status: "already-solved", message };
+  },
+  WrongLevel(message: string): SolveStatus {
+    return { status: "wrong-level", message };
+  },
+  DayComplete(message: string): SolveStatus {
+    return { status: "day-complete", message };
+  },
 } as const;
 
-function timeToReadable(d: number, h: number, m: number, s: number): string {
-  return (d !== 0 ? `${d}d ` : "") + (h !== 0 ? `${h}h ` : "") + (m !== 0 ? `${m}m ` : "") + (s !== 0 ? `${s}s ` : "");
-}
-
-function msToReadable(ms: number): string {
-  const msSecond = 1000;
-  const msMinute = 60 * msSecond;
-  const msHour = 60 * msMinute;
-  const msDay = 24 * msHour;
-
-  const d = Math.floor(ms / msDay);
-  const h = Math.floor((ms - msDay * d) / msHour);
-  const m = Math.floor((ms - msDay * d - msHour * h) / msMinute);
-  const s = Math.floor((ms - msDay * d - msHour * h - msMinute * m) / msSecond);
-
-  return timeToReadable(d, h, m, s);
-}
-
 const strToNum = (time: string) => {
   const entries: { [key: string]: number } = {
     one: 1,
@@ -206,37 +781,248 @@ const strToNum = (time: string) => {
 };
 
 /**
- * Try to turn an AoC rate limit info message into an error with a readable message.
- * @param info - the info returned by AoC that includes rate limit info.
+ * Parse the time AoC asks us to wait from a message, like "please wait one minute" or "You have
+ * 4m 12s left to wait".
+ * @param info - the info returned by AoC
+ * @returns the wait in milliseconds, or undefined if the message doesn't include one
  */
-function handleRateLimit(info: string): never {
+function parseWait(info: string): number | undefined {
   const waitStr = info.match(/(one|two|three|four|five|six|seven|eight|nine|ten) (second|minute|hour|day)/);
   const waitNum = info.match(/\d+\s*(s|m|h|d)/g);
 
-  if (waitStr !== null || waitNum !== null) {
-    const waitTime: { [key: string]: number } = {
-      s: 0,
-      m: 0,
-      h: 0,
-      d: 0,
-    };
-
-    if (waitStr !== null) {
-      const [_, time, unit] = waitStr;
-      waitTime[unit[0]] = strToNum(time);
-    } else if (waitNum !== null) {
-      for (const x of waitNum) {
-        waitTime[x.slice(-1)] = Number(x.slice(0, -1));
-      }
+  if (waitStr === null && waitNum === null) {
+    return undefined;
+  }
+
+  const waitTime: { [key: string]: number } = {
+    s: 0,
+    m: 0,
+    h: 0,
+    d: 0,
+  };
+
+  if (waitStr !== null) {
+    const [_, time, unit] = waitStr;
+    waitTime[unit[0]] = strToNum(time);
+  } else if (waitNum !== null) {
+    for (const x of waitNum) {
+      waitTime[x.slice(-1)] = Number(x.slice(0, -1));
     }
+  }
 
-    canSubmit = false;
-    delayStart = Date.now();
-    delayAmount = (waitTime.d * 24 * 60 * 60 + waitTime.h * 60 * 60 + waitTime.m * 60 + waitTime.s) * 1000;
+  return (waitTime.d * 24 * 60 * 60 + waitTime.h * 60 * 60 + waitTime.m * 60 + waitTime.s) * 1000;
+}
 
-    const delayStr = timeToReadable(waitTime.d, waitTime.h, waitTime.m, waitTime.s);
+/**
+ * Get the local storage key for the end of a submission lockout.
+ * @param profileId - ID of the profile that's locked out
+ * @param year - year of the locked out puzzle
+ * @param day - day of the locked out puzzle
+ * @returns the key used in local storage for the profile, year, day combo
+ */
+function lockoutKey(profileId: string, year: number, day: number): string {
+  return profileKey(profileId, `lockout/${year}/${day}`);
+}
 
-    throw new AocError("RATE_LIMIT", `Next request possible in: ${delayStr}`);
+/**
+ * Record that AoC asked us to wait before submitting again for a year and day.
+ * @param profileId - ID of the profile that's locked out
+ * @param year - year of the locked out puzzle
+ * @param day - day of the locked out puzzle
+ * @param waitMs - how long AoC asked us to wait, in milliseconds
+ */
+async function setLockout(profileId: string, year: number, day: number, waitMs: number): Promise<void> {
+  await LocalStorage.setItem(lockoutKey(profileId, year, day), Date.now() + waitMs);
+}
+
+/**
+ * Get when submissions for a year and day are allowed again, if AoC asked us to wait. This is
+ * stored in local storage, so it lasts between command launches.
+ * @param profileId - ID of the profile submitting
+ * @param year - year of the puzzle
+ * @param day - day of the puzzle
+ * @returns the time (in ms since the epoch) the wait ends, or undefined if there's no wait
+ */
+export async function getLockout(profileId: string, year: number, day: number): Promise<number | undefined> {
+  const key = lockoutKey(profileId, year, day);
+  const until = await LocalStorage.getItem<number>(key);
+  if (until === undefined) {
+    return undefined;
+  } else if (until <= Date.now()) {
+    // The wait is over, so clean up after ourselves
+    await LocalStorage.removeItem(key);
+    return undefined;
+  }
+  return until;
+}
+
+/**
+ * Track the time left in the submission lockout for a year and day, updating every second.
+ * @param profileId - ID of the profile submitting
+ * @param year - year of the puzzle (may be NaN if not selected yet)
+ * @param day - day of the puzzle (may be NaN if not selected yet)
+ * @returns milliseconds left to wait (undefined if there's no wait) and a function to reload the lockout
+ */
+export function useLockout(profileId: string, year: number, day: number) {
+  const { data: until, revalidate } = useCachedPromise(
+    async (profileId: string, year: number, day: number) =>
+      Number.isNaN(year) || Number.isNaN(day) ? undefined : getLockout(profileId, year, day),
+    [profileId, year, day],
+  );
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (until === undefined) {
+      return;
+    }
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [until]);
+
+  const remainingMs = until !== undefined && until > now ? until - now : undefined;
+  return { remainingMs, revalidate };
+}
+
+/** What we know about a part's answer from past wrong submissions */
+export type AnswerBounds = {
+  /** Largest answer AoC said was too low */
+  low?: string;
+  /** Smallest answer AoC said was too high */
+  high?: string;
+  /** Every answer AoC rejected */
+  rejected: string[];
+};
+
+/**
+ * Get the local storage key for the known bounds on an answer. Each profile has its own inputs, so
+ * its own bounds.
+ * @param profileId - ID of the profile the answer is for
+ * @param year - year of the puzzle
+ * @param day - day of the puzzle
+ * @param part - part of the puzzle
+ * @returns the key used in local storage for the profile, year, day, part combo
+ */
+function boundsKey(profileId: string, year: number, day: number, part: 1 | 2): string {
+  return profileKey(profileId, `bounds/${year}/${day}/${part}`);
+}
+
+/**
+ * Parse an answer as an integer, using bigint since AoC answers can be larger than
+ * `Number.MAX_SAFE_INTEGER`.
+ * @param answer - the answer to parse
+ * @returns the parsed answer, or undefined if it isn't an integer
+ */
+function parseIntegerAnswer(answer: string): bigint | undefined {
+  return /^-?\d+$/.test(answer) ? BigInt(answer) : undefined;
+}
+
+/**
+ * Get the known bounds on a part's answer, from AoC's hints for past wrong answers.
+ * @param profileId - ID of the profile the answer is for
+ * @param year - year of the puzzle
+ * @param day - day of the puzzle
+ * @param part - part of the puzzle
+ * @returns the tightest known bounds and previously rejected answers
+ */
+export async function getAnswerBounds(
+  profileId: string,
+  year: number,
+  day: number,
+  part: 1 | 2,
+): Promise<AnswerBounds> {
+  const stored = await LocalStorage.getItem<string>(boundsKey(profileId, year, day, part));
+  return stored ? JSON.parse(stored) : { rejected: [] };
+}
+
+/**
+ * Record a wrong answer, tightening the bounds on the answer if AoC gave a hint.
+ * @param profileId - ID of the profile that submitted the answer
+ * @param year - year of the puzzle
+ * @param day - day of the puzzle
+ * @param part - part of the puzzle
+ * @param answer - the rejected answer
+ * @param hint - AoC's hint for the answer, if it gave one
+ */
+async function recordWrongAnswer(
+  profileId: string,
+  year: number,
+  day: number,
+  part: 1 | 2,
+  answer: string,
+  hint: AnswerHint | undefined,
+): Promise<void> {
+  const bounds = await getAnswerBounds(profileId, year, day, part);
+  if (!bounds.rejected.includes(answer)) {
+    bounds.rejected.push(answer);
+  }
+
+  const value = parseIntegerAnswer(answer);
+  if (value !== undefined) {
+    if (hint === "low" && (bounds.low === undefined || value > BigInt(bounds.low))) {
+      bounds.low = answer;
+    } else if (hint === "high" && (bounds.high === undefined || value < BigInt(bounds.high))) {
+      bounds.high = answer;
+    }
+  }
+
+  await LocalStorage.setItem(boundsKey(profileId, year, day, part), JSON.stringify(bounds));
+}
+
+/**
+ * Check an answer against the known bounds, so we don't use up an attempt on an answer that can't
+ * be right.
+ * @param bounds - known bounds on the answer
+ * @param answer - the answer to check
+ * @returns the reason the answer can't be right, or undefined if it might be
+ */
+export function answerRejection(bounds: AnswerBounds, answer: string): string | undefined {
+  if (bounds.rejected.includes(answer)) {
+    return "Answer was already rejected";
+  }
+  const value = parseIntegerAnswer(answer);
+  if (value === undefined) {
+    return undefined;
+  }
+  if (bounds.low !== undefined && value <= BigInt(bounds.low)) {
+    return `Answer must be greater than ${bounds.low}, which was too low`;
+  } else if (bounds.high !== undefined && value >= BigInt(bounds.high)) {
+    return `Answer must be less than ${bounds.high}, which was too high`;
+  }
+  return undefined;
+}
+
+/**
+ * Track the known bounds on a part's answer.
+ * @param profileId - ID of the profile the answer is for
+ * @param year - year of the puzzle (may be NaN if not selected yet)
+ * @param day - day of the puzzle (may be NaN if not selected yet)
+ * @param part - part of the puzzle (may be undefined if not selected yet)
+ * @returns the bounds, along with a function to reload them
+ */
+export function useAnswerBounds(profileId: string, year: number, day: number, part: 1 | 2 | undefined) {
+  return useCachedPromise(
+    async (profileId: string, year: number, day: number, part: 1 | 2 | undefined): Promise<AnswerBounds> =>
+      Number.isNaN(year) || Number.isNaN(day) || part === undefined
+        ? { rejected: [] }
+        : getAnswerBounds(profileId, year, day, part),
+    [profileId, year, day, part],
+  );
+}
+
+/**
+ * Try to turn an AoC rate limit info message into an error with a readable message, recording the
+ * lockout so later submissions for the puzzle wait for it.
+ * @param profileId - ID of the profile that submitted
+ * @param year - year of the submitted puzzle
+ * @param day - day of the submitted puzzle
+ * @param info - the info returned by AoC that includes rate limit info.
+ */
+async function handleRateLimit(profileId: string, year: number, day: number, info: string): Promise<never> {
+  const waitMs = parseWait(info);
+  if (waitMs !== undefined) {
+    await setLockout(profileId, year, day, waitMs);
+    throw new AocError("RATE_LIMIT", `Next request possible in: ${msToReadable(waitMs)}`);
   }
   throw new AocError("SOLVE_ERROR", info);
 }
@@ -261,24 +1047,26 @@ function useCachedPromiseOnChange<T extends FunctionReturningPromise, U = undefi
 }
 
 // TODO: Make this use the user's AoC stars, rather than completed projects
-export function useYears(completedProjects?: Map<number, Project[]> | undefined) {
+export function useYears(completedProjects?: Map<number, Project[]> | undefined, sessionToken: string = "") {
   return useCachedPromise(
-    async (completed) => {
-      const res = await fetch(`${API_URL}/events`, unauthenticatedOptions);
-      const body = await res.text();
+    async (completed, sessionToken: string) => {
+      const { value: body } = await cachedFetch(`${API_URL}/events`, unauthenticatedOptions.headers, "events");
       const $ = cheerio.load(body);
       const years = $(".eventlist-event a")
         .map((_, el) => parseInt($(el).text().slice(1, -1))) // Remove the square brackets around each year
         .toArray();
       if (completedProjects) {
+        // Years without any projects yet still have days to create, so only check the others
+        const started = years.filter((year) => completed.has(year));
+        const dayCounts = await getDayCounts(started, sessionToken);
         return years.filter((year) => {
           const comp = completed.get(year);
-          return comp && comp.length < 25;
+          return !comp || comp.length < dayCounts[year];
         });
       }
       return years;
     },
-    [completedProjects],
+    [completedProjects, sessionToken],
   );
 }
 
@@ -288,13 +1076,15 @@ export function useIncompleteDays(
   resetSelection: (newValue: number[] | undefined) => void,
 ) {
   return useCachedPromiseOnChange(
-    resetSelection,
-    async (year, sessionToken) => {
+    (newValue) => resetSelection(newValue?.value),
+    async (year: number, sessionToken: string): Promise<Cached<number[]> | undefined> => {
       if (Number.isNaN(year)) {
         return;
       }
-      const stars = await getStarsForYear(year, sessionToken);
-      return Array.from({ length: 25 }, (_, i) => i + 1).filter((it) => !stars.has(it) || (stars.get(it) ?? 2) < 2);
+      const { value: calendar, cachedAt } = await getCalendar(year, sessionToken);
+      // Puzzles that haven't unlocked can't be started yet
+      const days = calendar.days.filter((it) => it.unlocked && it.stars < STARS_PER_DAY).map((it) => it.day);
+      return { value: days, cachedAt };
     },
     [year, sessionToken],
   );
@@ -306,7 +1096,7 @@ export function useIncompleteDays(
  * @param day - solution's day
  * @param part - solution's part (1 or 2)
  * @param solution - the solution's text content
- * @param sessionToken - the user's AoC session token
+ * @param profile - the profile to submit as
  * @returns the solution's result
  */
 export async function sendSolution(
@@ -314,23 +1104,22 @@ export async function sendSolution(
   day: number,
   part: 1 | 2,
   solution: string,
-  sessionToken: string,
+  profile: Profile,
 ): Promise<SolveStatus> {
-  if (!canSubmit) {
-    const now = Date.now();
-    const remainingMs = delayAmount - (now - delayStart);
+  if (isOffline()) {
+    throw new AocError("OFFLINE", "Answers can't be submitted in offline mode");
+  }
 
-    if (remainingMs <= 0) {
-      canSubmit = true;
-    } else {
-      return SolveStatus.Wait(`You have to wait: ${msToReadable(remainingMs)}`);
-    }
+  // Don't make a request while AoC has us locked out, since that would only extend the wait
+  const lockout = await getLockout(profile.id, year, day);
+  if (lockout !== undefined) {
+    return SolveStatus.Wait(`You have to wait: ${msToReadable(lockout - Date.now())}`);
   }
 
   try {
     const res = await fetch(`${API_URL}/${year}/day/${day}/answer`, {
       headers: {
-        cookie: `session=${sessionToken}`,
+        cookie: `session=${profile.sessionToken}`,
         "content-type": "application/x-www-form-urlencoded",
         ...USER_AGENT_HEADER,
       },
@@ -343,22 +1132,43 @@ export async function sendSolution(
 
     const body = await res.text();
     const $ = cheerio.load(body);
+    assertLoggedIn($);
     const $main = $("main");
 
     const info =
       $main.length !== 0
         ? $main
-          .text()
-          .replace(/\[.*\]/, "")
-          .trim()
+            .text()
+            .replace(/\[.*\]/, "")
+            .trim()
         : "Can't find the main element";
 
     if (info.includes("That's the right answer")) {
-      return SolveStatus.Success();
+      // The user's stars and the puzzle's text (for part 2) have changed
+      await clearCache("stars", "puzzle");
+      return SolveStatus.Success(info);
     } else if (info.includes("That's not the right answer")) {
-      return SolveStatus.Wrong(info);
+      const hint = info.includes("too high") ? "high" : info.includes("too low") ? "low" : undefined;
+      await recordWrongAnswer(profile.id, year, day, part, solution, hint);
+
+      // Wrong answers also come with a wait before the next attempt
+      const waitMs = parseWait(info);
+      if (waitMs !== undefined) {
+        await setLockout(profile.id, year, day, waitMs);
+      }
+      return SolveStatus.Wrong(info, hint);
     } else if (info.includes("You gave an answer too recently")) {
-      handleRateLimit(info);
+      return await handleRateLimit(profile.id, year, day, info);
+    } else if (info.includes("You don't seem to be solving the right level")) {
+      // AoC says the same thing whether the part is done or not unlocked yet, so check the stars. The
+      // part may have been solved outside the extension, so don't trust the cache.
+      await clearCache("stars");
+      const { value: calendar } = await getCalendar(year, profile.sessionToken);
+      const stars = calendar.days.find((it) => it.day === day)?.stars ?? 0;
+      return stars >= part ? SolveStatus.AlreadySolved(info) : SolveStatus.WrongLevel(info);
+    } else if (info.includes("You've finished every puzzle") || info.includes("You have completed Day")) {
+      await clearCache("stars", "puzzle");
+      return SolveStatus.DayComplete(info);
     } else {
       throw new AocError("SOLVE_ERROR", info);
     }
@@ -0,0 +1,153 @@
+import { environment, getPreferenceValues } from "@raycast/api";
+import { createHash } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+
+/** Kinds of AoC resources, which each have their own time to live in the cache */
+export type ResourceType = "input" | "events" | "stars" | "puzzle" | "leaderboard";
+
+const MINUTE_MS = 60 * 1000;
+
+/** How long each kind of resource is served from the cache before it's requested again */
+const TTL_MS: Record<ResourceType, number> = {
+  // Inputs never change
+  input: Infinity,
+  events: 24 * 60 * MINUTE_MS,
+  stars: 5 * MINUTE_MS,
+  puzzle: 5 * MINUTE_MS,
+  // AoC asks for private leaderboards to be requested at most every 15 minutes
+  leaderboard: 15 * MINUTE_MS,
+};
+
+/** A cached response, as stored on disk */
+type CacheEntry = {
+  /** When the response was fetched, in ms since the epoch */
+  fetchedAt: number;
+  contentType: string;
+  body: string;
+};
+
+/** A value, along with when it was cached if it came from the cache instead of the network */
+export type Cached<T> = { value: T; cachedAt?: Date };
+
+export type CachedResponse = Cached<string> & { contentType: string };
+
+/** Thrown when offline mode is on and a resource isn't in the cache */
+export class OfflineError extends Error {
+  constructor(url: string) {
+    super(`${url} isn't cached, and offline mode is on`);
+  }
+}
+
+/**
+ * Whether offline mode is on, meaning no requests should be made to AoC.
+ * @returns whether offline mode is on (from preferences)
+ */
+export function isOffline(): boolean {
+  return getPreferenceValues<Preferences>().offlineMode;
+}
+
+/**
+ * Get the directory that cached responses of a given type are stored in.
+ * @param type - the type of resource
+ * @returns the path of the cache directory for the type
+ */
+function cacheDir(type: ResourceType): string {
+  return path.join(environment.supportPath, "http-cache", type);
+}
+
+/**
+ * Get the path of the cache file for a request. Headers are part of the key, so responses for
+ * different session tokens are kept separate.
+ * @param url - URL of the request
+ * @param headers - headers of the request
+ * @param type - the type of resource
+ * @returns the path of the cache file for the request
+ */
+function cachePath(url: string, headers: Record<string, string>, type: ResourceType): string {
+  const hash = createHash("sha256").update(url).update(JSON.stringify(headers)).digest("hex");
+  return path.join(cacheDir(type), `${hash}.json`);
+}
+
+/**
+ * Read a cached response.
+ * @param file - the cache file to read
+ * @returns the cached response, or undefined if there isn't one
+ */
+async function readEntry(file: string): Promise<CacheEntry | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf-8"));
+  } catch {
+    // Missing or corrupt, so treat it as not cached
+    return undefined;
+  }
+}
+
+/**
+ * Make a GET request, serving it from the on-disk cache if the cached response hasn't expired. In
+ * offline mode (from preferences), or if the request fails because we're offline, the cached
+ * response is served no matter how old it is.
+ *
+ * @param url - URL to request
+ * @param headers - headers for the request
+ * @param type - the type of resource, which decides how long it's cached
+ * @param refresh - whether to skip the cache and make the request (unless offline)
+ * @returns the response's body and content type, with when it was cached if it came from the cache
+ * @throws an `Error` with the status code as its message for non-200 responses, or an
+ * `OfflineError` if offline mode is on and the response isn't cached
+ */
+export async function cachedFetch(
+  url: string,
+  headers: Record<string, string>,
+  type: ResourceType,
+  refresh: boolean = false,
+): Promise<CachedResponse> {
+  const offlineMode = isOffline();
+  const file = cachePath(url, headers, type);
+  const entry = await readEntry(file);
+
+  const fromEntry = (entry: CacheEntry) => ({
+    value: entry.body,
+    contentType: entry.contentType,
+    cachedAt: new Date(entry.fetchedAt),
+  });
+
+  if (entry && (offlineMode || (!refresh && Date.now() - entry.fetchedAt < TTL_MS[type]))) {
+    return fromEntry(entry);
+  } else if (offlineMode) {
+    throw new OfflineError(url);
+  }
+
+  let res: Response;
+  try {
+    res = await fetch(url, { headers });
+  } catch (e: unknown) {
+    // The network is unavailable, so stale data is better than nothing
+    if (entry) {
+      return fromEntry(entry);
+    }
+    throw e;
+  }
+
+  if (res.status !== 200) {
+    throw new Error(String(res.status));
+  }
+
+  const fresh: CacheEntry = {
+    fetchedAt: Date.now(),
+    contentType: res.headers.get("content-type") ?? "",
+    body: await res.text(),
+  };
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(fresh));
+
+  return { value: fresh.body, contentType: fresh.contentType };
+}
+
+/**
+ * Remove every cached response of the given types, e.g. after a submission changes the user's stars.
+ * @param types - the types of resources to remove
+ */
+export async function clearCache(...types: ResourceType[]): Promise<void> {
+  await Promise.all(types.map((type) => fs.rm(cacheDir(type), { recursive: true, force: true })));
+}
@@ -0,0 +1,167 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { getCalendar, getStars } from "./api";
+import { detectLanguage } from "./languages";
+import { Profile } from "./profiles";
+import { completedDays, projectLayout } from "./projects";
+
+/** Formats progress can be exported in */
+export type ExportFormat = "markdown" | "json" | "csv";
+
+/** Progress on a single day, for exporting */
+export type DayProgress = {
+  day: number;
+  stars: number;
+  /** Path of the day's project, relative to where the export is going */
+  project?: string;
+  /** Language the day's project is written in, if it could be detected */
+  language?: string;
+};
+
+/** Progress on a year, for exporting */
+export type YearProgress = {
+  year: number;
+  stars: number;
+  maxStars: number;
+  /** Every day that has unlocked */
+  days: DayProgress[];
+};
+
+/** Comments that mark where exported progress goes in a file, so it can be updated in place */
+export const START_MARKER = "<!-- advent-of-code:start -->";
+export const END_MARKER = "<!-- advent-of-code:end -->";
+
+/**
+ * Gather a profile's stars and projects for each year. Years without any stars or projects are
+ * skipped, so exports only cover years that were played.
+ *
+ * @param profile - the profile to export progress for
+ * @param years - the years to export, or undefined for every year
+ * @param relativeTo - directory that project paths are made relative to
+ * @returns progress for each year, newest first
+ */
+export async function getProgress(
+  profile: Profile,
+  years: number[] | undefined,
+  relativeTo: string,
+): Promise<YearProgress[]> {
+  const { value: stars } = await getStars(profile.sessionToken);
+  const projects = await completedDays(profile.projectDirectory, projectLayout());
+
+  const played = Array.from(stars.keys())
+    .filter((year) => years === undefined || years.includes(year))
+    .filter((year) => (stars.get(year) ?? 0) > 0 || (projects.get(year)?.length ?? 0) > 0)
+    .toSorted((a, b) => b - a);
+
+  const progress: YearProgress[] = [];
+  for (const year of played) {
+    const { value: calendar } = await getCalendar(year, profile.sessionToken);
+    const yearProjects = projects.get(year) ?? [];
+
+    const days = await Promise.all(
+      calendar.days
+        .filter((day) => day.unlocked)
+        .map(async ({ day, stars }) => {
+          const project = yearProjects.find((it) => it.day === day);
+          return {
+            day,
+            stars,
+            project: project && path.relative(relativeTo, project.path),
+            language: project && (await detectLanguage(project.path)),
+          };
+        }),
+    );
+    progress.push({ year, stars: stars.get(year) ?? 0, maxStars: calendar.maxStars, days });
+  }
+  return progress;
+}
+
+/**
+ * Render progress as markdown, with a table of days for each year.
+ * @param progress - the progress to render
+ * @returns markdown for the progress
+ */
+function toMarkdown(progress: YearProgress[]): string {
+  return progress
+    .map(({ year, stars, maxStars, days }) => {
+      const rows = days.map(({ day, stars, project, language }) => {
+        // Escape spaces so paths still work as links
+        const link = project ? `[${path.basename(project)}](${project.replaceAll(" ", "%20")})` : "";
+        return `| ${day} | ${"⭐".repeat(stars)} | ${language ?? ""} | ${link} |`;
+      });
+      return [
+        `### ${year} (${stars}/${maxStars} ⭐)`,
+        "",
+        "| Day | Stars | Language | Project |",
+        "| --: | :---- | :------- | :------ |",
+        ...rows,
+      ].join("\n");
+    })
+    .join("\n\n");
+}
+
+/**
+ * Quote a CSV field if it needs it.
+ * @param value - the field's value
+ * @returns the field, ready to go in a CSV row
+ */
+function csvField(value: string | number | undefined): string {
+  const s = value?.toString() ?? "";
+  return /[",\n]/.test(s) ? `"${s.replaceAll('"', '""')}"` : s;
+}
+
+/**
+ * Render progress as CSV, with a row for each day.
+ * @param progress - the progress to render
+ * @returns CSV for the progress, with a header row
+ */
+function toCsv(progress: YearProgress[]): string {
+  const rows = progress.flatMap(({ year, days }) =>
+    days.map(({ day, stars, language, project }) => [year, day, stars, language, project].map(csvField).join(",")),
+  );
+  return ["year,day,stars,language,project", ...rows].join("\n");
+}
+
+/**
+ * Render progress in a given format.
+ * @param progress - the progress to render
+ * @param format - the format to render it in
+ * @returns the rendered progress
+ */
+export function formatProgress(progress: YearProgress[], format: ExportFormat): string {
+  switch (format) {
+    case "markdown":
+      return toMarkdown(progress);
+    case "json":
+      return JSON.stringify(progress, null, 2);
+    case "csv":
+      return toCsv(progress);
+  }
+}
+
+/**
+ * Write exported progress into a file between the start and end markers, leaving the rest of the
+ * file alone. If the file doesn't have markers yet, they're added at the end.
+ *
+ * @param file - the file to update, which is created if it doesn't exist
+ * @param content - the exported progress
+ */
+export async function writeBetweenMarkers(file: string, content: string): Promise<void> {
+  let existing = "";
+  try {
+    existing = await fs.readFile(file, "utf-8");
+  } catch {
+    // The file doesn't exist yet, so it'll just have the markers
+  }
+
+  const section = `${START_MARKER}\n${content}\n${END_MARKER}`;
+  const start = existing.indexOf(START_MARKER);
+  const end = existing.indexOf(END_MARKER, start);
+  if (start !== -1 && end !== -1) {
+    await fs.writeFile(file, existing.slice(0, start) + section + existing.slice(end + END_MARKER.length));
+  } else {
+    // Leave a blank line between the file's content and the new section
+    const separator = existing === "" ? "" : existing.endsWith("\n") ? "\n" : "\n\n";
+    await fs.writeFile(file, `${existing}${separator}${section}\n`);
+  }
+}
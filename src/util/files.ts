@@ -0,0 +1,355 @@
+import { Application, environment, getPreferenceValues } from "@raycast/api";
+import ignore, { Ignore } from "ignore";
+import { createHash } from "node:crypto";
+import { Dirent } from "node:fs";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+/** Ignore rules from a .gitignore, along with the directory it was found in */
+export type GitignoreRules = [Ignore, string];
+
+/** Files bigger than this are skipped, since they're probably data rather than code */
+export const MAX_FILE_BYTES = 512 * 1024;
+
+/** A value cached on disk, along with what it was built from */
+type WatchedCacheEntry<T> = {
+  /** The directory the value is for, so entries for directories that are gone can be pruned */
+  dir: string;
+  /** Options and preferences the value was built with */
+  key: string;
+  /** Files and directories the value was built from, with their mtimes (or 0 if they didn't exist) */
+  watched: [string, number][];
+  value: T;
+};
+
+/**
+ * Get the files to ignore in every project, regardless of path.
+ * @returns ignore rules for the ignore list (from extension preferences)
+ */
+export function baseIgnore(): Ignore {
+  const preferences = getPreferenceValues<Preferences>();
+  // Remove padding and trailing slashes, so we don't have to add them as we're testing files later
+  const ignoreList = preferences.ignoreList.split(",").map((val) => val.trim().replace(/\/$/, ""));
+  return ignore().add(ignoreList);
+}
+
+/**
+ * Whether to skip files listed in projects' .gitignore files.
+ * @returns whether gitignores should be respected (from extension preferences)
+ */
+export function respectGitignore(): boolean {
+  return getPreferenceValues<Preferences>().respectGitignore;
+}
+
+/**
+ * Read ignore rules from a file, like a .gitignore.
+ * @param file - the file to read
+ * @param relativeTo - the directory the rules' paths are relative to
+ * @returns the rules, or undefined if the file doesn't exist
+ */
+async function readIgnoreFile(file: string, relativeTo: string): Promise<GitignoreRules | undefined> {
+  try {
+    const content = await fs.readFile(file);
+    return [ignore().add(content.toString()), relativeTo];
+  } catch {
+    // The file doesn't exist, so there are no rules from it
+    return undefined;
+  }
+}
+
+/**
+ * Add a directory's .gitignore to the rules built up while walking a project, if it has one.
+ * @param dir - the directory being walked into
+ * @param ignores - the rules from the directory's ancestors
+ * @returns the rules to use for the directory's contents
+ */
+export async function withGitignore(dir: string, ignores: GitignoreRules[]): Promise<GitignoreRules[]> {
+  const rules = await readIgnoreFile(path.join(dir, ".gitignore"), dir);
+  // There's no gitignore if there aren't any rules, so just carry on with the existing rules
+  return rules ? [...ignores, rules] : ignores;
+}
+
+/**
+ * Find the root of the git repo a directory is in.
+ * @param dir - the directory to start looking from
+ * @returns the repo's root and its git directory, or undefined if the directory isn't in a repo
+ */
+async function findRepo(dir: string): Promise<{ root: string; gitDir: string } | undefined> {
+  for (let current = path.resolve(dir); ; current = path.dirname(current)) {
+    const dotGit = path.join(current, ".git");
+    try {
+      const stat = await fs.stat(dotGit);
+      if (stat.isDirectory()) {
+        return { root: current, gitDir: dotGit };
+      }
+      // Worktrees and submodules have a file pointing to the real git directory
+      const gitDir = /^gitdir:\s*(.+)$/m.exec(await fs.readFile(dotGit, "utf-8"))?.[1].trim();
+      if (gitDir) {
+        return { root: current, gitDir: path.resolve(current, gitDir) };
+      }
+    } catch {
+      // Not the root, so keep looking upwards
+    }
+    if (path.dirname(current) === current) {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Find git's global excludes file, from `core.excludesFile` in the user's git config or git's
+ * default location.
+ * @returns the path of the global excludes file
+ */
+async function globalExcludesFile(): Promise<string> {
+  const home = os.homedir();
+  const xdgConfig = process.env.XDG_CONFIG_HOME || path.join(home, ".config");
+
+  // Later config files take priority, like they do for git
+  let excludesFile: string | undefined;
+  for (const config of [path.join(xdgConfig, "git", "config"), path.join(home, ".gitconfig")]) {
+    let section = "";
+    const content = await fs.readFile(config, "utf-8").catch(() => "");
+    for (const line of content.split("\n")) {
+      const header = /^\s*\[([^\]\s]+)/.exec(line);
+      if (header) {
+        section = header[1].toLowerCase();
+        continue;
+      }
+      const m = /^\s*excludesfile\s*=\s*"?([^"]*?)"?\s*$/i.exec(line);
+      if (section === "core" && m) {
+        excludesFile = m[1];
+      }
+    }
+  }
+
+  if (excludesFile === undefined) {
+    return path.join(xdgConfig, "git", "ignore");
+  }
+  return excludesFile.startsWith("~/") ? path.join(home, excludesFile.slice(2)) : path.resolve(home, excludesFile);
+}
+
+/**
+ * Find every ignore file git would apply to a directory's contents, apart from the directory's own
+ * .gitignore: the global excludes file, the repo's `info/exclude`, and the .gitignore files between
+ * the repo's root and the directory.
+ *
+ * @param dir - the directory to find ignore files for
+ * @returns each ignore file with the directory its paths are relative to, in order of precedence
+ * from lowest to highest
+ */
+export async function ancestorIgnoreFiles(dir: string): Promise<[string, string][]> {
+  const repo = await findRepo(dir);
+  if (!repo) {
+    return [];
+  }
+
+  const files: [string, string][] = [
+    [await globalExcludesFile(), repo.root],
+    [path.join(repo.gitDir, "info", "exclude"), repo.root],
+  ];
+  const between = path.relative(repo.root, path.resolve(dir)).split(path.sep).filter(Boolean);
+  for (let i = 0; i < between.length; i++) {
+    const ancestor = path.join(repo.root, ...between.slice(0, i));
+    files.push([path.join(ancestor, ".gitignore"), ancestor]);
+  }
+  return files;
+}
+
+/**
+ * Get the ignore rules that apply to a directory from outside it, so walking the directory skips
+ * the same files git does.
+ * @param dir - the directory about to be walked
+ * @returns the rules from the directory's repo, in order of precedence from lowest to highest
+ */
+export async function ancestorIgnores(dir: string): Promise<GitignoreRules[]> {
+  const rules = await Promise.all(
+    (await ancestorIgnoreFiles(dir)).map(([file, relativeTo]) => readIgnoreFile(file, relativeTo)),
+  );
+  return rules.filter((rule) => rule !== undefined);
+}
+
+/**
+ * Whether a file or directory should be skipped.
+ * @param d - the file or directory
+ * @param base - files to ignore, regardless of path
+ * @param ignores - rules from .gitignore files, in order of precedence from lowest to highest
+ * @returns whether the entry is ignored
+ */
+export function isIgnored(d: Dirent, base: Ignore, ignores: GitignoreRules[]): boolean {
+  if (base.ignores(d.name)) {
+    return true;
+  }
+
+  // Like git, later rules win, so a deeper .gitignore can un-ignore a file with `!`
+  let ignored = false;
+  for (const [ig, relativeTo] of ignores) {
+    // Paths need to be relative to the directory we found the ignore rules in, with a trailing slash
+    // for directories so rules like `build/` match them
+    const relative = path.relative(relativeTo, path.join(d.parentPath, d.name)) + (d.isDirectory() ? "/" : "");
+    const result = ig.test(relative);
+    if (result.ignored) {
+      ignored = true;
+    } else if (result.unignored) {
+      ignored = false;
+    }
+  }
+  return ignored;
+}
+
+/**
+ * Walk every file in a directory that isn't ignored.
+ * @param dir - the directory to walk
+ * @param base - files to ignore, regardless of path
+ * @param useGitignore - whether to skip files listed in .gitignore files
+ * @param ignores - rules from .gitignore files in the directory's ancestors, which are found from
+ * the directory's repo if not given
+ * @param onDirectory - called with each directory before it's walked, e.g. to watch it for changes
+ * @returns generator of the absolute paths of the directory's files
+ */
+export async function* walkFiles(
+  dir: string,
+  base: Ignore,
+  useGitignore: boolean,
+  ignores?: GitignoreRules[],
+  onDirectory?: (dir: string) => void,
+): AsyncGenerator<string> {
+  onDirectory?.(dir);
+  if (useGitignore) {
+    ignores = await withGitignore(dir, ignores ?? (await ancestorIgnores(dir)));
+  }
+
+  const entries = (await fs.readdir(dir, { withFileTypes: true }))
+    .filter((d) => !isIgnored(d, base, ignores ?? []))
+    .toSorted((a, b) => a.name.localeCompare(b.name));
+  for (const d of entries) {
+    const p = path.join(d.parentPath, d.name);
+    if (d.isDirectory()) {
+      yield* walkFiles(p, base, useGitignore, ignores ?? [], onDirectory);
+    } else if (d.isFile()) {
+      yield p;
+    }
+  }
+}
+
+/**
+ * Get when a file or directory was last modified.
+ * @param p - the file or directory
+ * @returns its mtime in ms, or 0 if it doesn't exist
+ */
+export async function mtime(p: string): Promise<number> {
+  try {
+    return (await fs.stat(p)).mtimeMs;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Get the path of the cache file for a value built from a directory.
+ * @param name - the kind of value, which gets its own cache directory
+ * @param dir - the directory the value is for
+ * @returns the path of the cache file
+ */
+function watchedCachePath(name: string, dir: string): string {
+  const hash = createHash("sha256").update(dir).digest("hex");
+  return path.join(environment.supportPath, name, `${hash}.json`);
+}
+
+/**
+ * Read a value cached for a directory, if none of what it was built from has changed since.
+ * @param name - the kind of value, like "tree-cache"
+ * @param dir - the directory the value is for
+ * @param key - the options and preferences the value needs to have been built with
+ * @returns the cached value, or undefined if there isn't an up-to-date one
+ */
+export async function readWatchedCache<T>(name: string, dir: string, key: string): Promise<T | undefined> {
+  try {
+    const entry: WatchedCacheEntry<T> = JSON.parse(await fs.readFile(watchedCachePath(name, dir), "utf-8"));
+    if (entry.key !== key) {
+      return undefined;
+    }
+    for (const [p, modified] of entry.watched) {
+      if ((await mtime(p)) !== modified) {
+        return undefined;
+      }
+    }
+    return entry.value;
+  } catch {
+    // Missing or corrupt, so treat it as not cached
+    return undefined;
+  }
+}
+
+/**
+ * Cache a value built from a directory, until any of what it was built from changes.
+ * @param name - the kind of value, like "tree-cache"
+ * @param dir - the directory the value is for
+ * @param key - the options and preferences the value was built with
+ * @param watched - files and directories the value was built from, with their mtimes
+ * @param value - the value to cache
+ */
+export async function writeWatchedCache<T>(
+  name: string,
+  dir: string,
+  key: string,
+  watched: [string, number][],
+  value: T,
+): Promise<void> {
+  const file = watchedCachePath(name, dir);
+  const entry: WatchedCacheEntry<T> = { dir, key, watched, value };
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(entry));
+}
+
+/**
+ * Delete cached values for directories that no longer exist, like projects that were renamed,
+ * archived or moved to the trash, so the cache doesn't keep growing.
+ * @param name - the kind of value, like "tree-cache"
+ */
+export async function pruneWatchedCache(name: string): Promise<void> {
+  const cacheDir = path.join(environment.supportPath, name);
+  let files: string[];
+  try {
+    files = await fs.readdir(cacheDir);
+  } catch {
+    // Nothing has been cached yet
+    return;
+  }
+
+  for (const file of files) {
+    const p = path.join(cacheDir, file);
+    try {
+      const entry: Partial<WatchedCacheEntry<unknown>> = JSON.parse(await fs.readFile(p, "utf-8"));
+      if (entry.dir !== undefined && (await fs.stat(entry.dir).catch(() => undefined))) {
+        continue;
+      }
+    } catch {
+      // Corrupt, so it's no use anyway
+    }
+    await fs.rm(p, { force: true }).catch(() => {});
+  }
+}
+
+/** URL schemes for opening a file at a line, for editors that support them */
+const LINE_URLS: Record<string, (file: string, line: number) => string> = {
+  "com.microsoft.VSCode": (file, line) => `vscode://file${encodeURI(file)}:${line}`,
+  "com.microsoft.VSCodeInsiders": (file, line) => `vscode-insiders://file${encodeURI(file)}:${line}`,
+  "com.vscodium": (file, line) => `vscodium://file${encodeURI(file)}:${line}`,
+  "com.todesktop.230313mzl4w4u92": (file, line) => `cursor://file${encodeURI(file)}:${line}`,
+  "dev.zed.Zed": (file, line) => `zed://file${encodeURI(file)}:${line}`,
+  "com.sublimetext.4": (file, line) => `subl://open?url=file://${encodeURIComponent(file)}&line=${line}`,
+};
+
+/**
+ * Get a URL that opens a file at a given line in an editor.
+ * @param file - absolute path of the file
+ * @param line - the line to open at, starting from 1
+ * @param app - the editor to open the file in
+ * @returns the URL, or undefined if the editor can't be opened at a line
+ */
+export function lineUrl(file: string, line: number, app: Application | undefined): string | undefined {
+  const url = app?.bundleId && LINE_URLS[app.bundleId];
+  return url ? url(file, line) : undefined;
+}
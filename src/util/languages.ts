@@ -0,0 +1,209 @@
+import { getPreferenceValues } from "@raycast/api";
+import fs from "node:fs/promises";
+import path from "node:path";
+import {
+  ancestorIgnoreFiles,
+  baseIgnore,
+  MAX_FILE_BYTES,
+  mtime,
+  pruneWatchedCache,
+  readWatchedCache,
+  respectGitignore,
+  walkFiles,
+  writeWatchedCache,
+} from "./files";
+
+/** Name of the on-disk cache for project languages */
+const LANGUAGE_CACHE = "language-cache";
+
+/** Projects analysed at once, so lots of projects don't use up every file handle */
+const ANALYZE_CONCURRENCY = 4;
+
+/** Build files that give away a project's language, in the order they're checked */
+const BUILD_FILES: [string, string][] = [
+  ["Cargo.toml", "Rust"],
+  ["go.mod", "Go"],
+  ["tsconfig.json", "TypeScript"],
+  ["package.json", "JavaScript"],
+  ["pyproject.toml", "Python"],
+  ["requirements.txt", "Python"],
+  ["main.py", "Python"],
+  ["Package.swift", "Swift"],
+  ["build.gradle.kts", "Kotlin"],
+  ["pom.xml", "Java"],
+  ["build.gradle", "Java"],
+  ["mix.exs", "Elixir"],
+  ["stack.yaml", "Haskell"],
+  ["dune-project", "OCaml"],
+  ["build.zig", "Zig"],
+  ["CMakeLists.txt", "C++"],
+  ["Gemfile", "Ruby"],
+  ["deno.json", "TypeScript"],
+];
+
+/** Source file extensions for each language */
+const EXTENSIONS: Record<string, string> = {
+  ".rs": "Rust",
+  ".go": "Go",
+  ".ts": "TypeScript",
+  ".mts": "TypeScript",
+  ".js": "JavaScript",
+  ".mjs": "JavaScript",
+  ".cjs": "JavaScript",
+  ".py": "Python",
+  ".swift": "Swift",
+  ".kt": "Kotlin",
+  ".kts": "Kotlin",
+  ".java": "Java",
+  ".scala": "Scala",
+  ".ex": "Elixir",
+  ".exs": "Elixir",
+  ".erl": "Erlang",
+  ".hs": "Haskell",
+  ".ml": "OCaml",
+  ".fs": "F#",
+  ".cs": "C#",
+  ".zig": "Zig",
+  ".c": "C",
+  ".h": "C",
+  ".cpp": "C++",
+  ".cc": "C++",
+  ".hpp": "C++",
+  ".rb": "Ruby",
+  ".jl": "Julia",
+  ".lua": "Lua",
+  ".php": "PHP",
+  ".clj": "Clojure",
+  ".dart": "Dart",
+  ".nim": "Nim",
+  ".odin": "Odin",
+  ".gleam": "Gleam",
+  ".r": "R",
+  ".sql": "SQL",
+  ".sh": "Shell",
+  ".ps1": "PowerShell",
+  ".apl": "APL",
+  ".bqn": "BQN",
+  ".uiua": "Uiua",
+};
+
+/** A project's code, broken down by language */
+export type ProjectLanguages = {
+  /** The language the project is mostly written in */
+  primary?: string;
+  /** Non-blank lines of code in each language */
+  lines: Record<string, number>;
+};
+
+/**
+ * Find the language a project's build files are for.
+ * @param projectPath - the project to look in
+ * @returns the language of the first build file found, or undefined if there isn't one
+ */
+async function buildFileLanguage(projectPath: string): Promise<string | undefined> {
+  let files: Set<string>;
+  try {
+    files = new Set(await fs.readdir(projectPath));
+  } catch {
+    // The project may have been moved or deleted since it was found
+    return undefined;
+  }
+  return BUILD_FILES.find(([file]) => files.has(file))?.[1];
+}
+
+/**
+ * Count the lines of code in a project for each language, skipping ignored files the same way the
+ * project's tree does. The primary language is the build file's language if the project has code
+ * in it, since helper scripts shouldn't outweigh the solution, and otherwise the one with the most
+ * lines.
+ *
+ * Results are cached on disk until a file or directory in the project (or an ignore file that
+ * applies to it) changes.
+ *
+ * @param projectPath - the project to analyse
+ * @returns the project's primary language and lines of code in each language
+ */
+export async function analyzeProject(projectPath: string): Promise<ProjectLanguages> {
+  const preferences = getPreferenceValues<Preferences>();
+  const key = JSON.stringify([preferences.ignoreList, preferences.respectGitignore]);
+  const cached = await readWatchedCache<ProjectLanguages>(LANGUAGE_CACHE, projectPath, key);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const useGitignore = respectGitignore();
+  const watched: [string, number][] = [];
+  const directories: string[] = [];
+  const lines: Record<string, number> = {};
+  try {
+    const onDirectory = (dir: string) => directories.push(dir);
+    for await (const file of walkFiles(projectPath, baseIgnore(), useGitignore, undefined, onDirectory)) {
+      const language = EXTENSIONS[path.extname(file).toLowerCase()];
+      if (language === undefined) {
+        continue;
+      }
+      const stat = await fs.stat(file);
+      watched.push([file, stat.mtimeMs]);
+      if (stat.size > MAX_FILE_BYTES) {
+        continue;
+      }
+      const content = await fs.readFile(file, "utf-8");
+      const count = content.split("\n").filter((line) => line.trim().length > 0).length;
+      lines[language] = (lines[language] ?? 0) + count;
+    }
+  } catch {
+    // The project may have been moved or deleted since it was found
+    return { lines };
+  }
+
+  const built = await buildFileLanguage(projectPath);
+  const [mostLines] = Object.entries(lines).toSorted(([, a], [, b]) => b - a)[0] ?? [];
+  const languages = { primary: built !== undefined && lines[built] ? built : (mostLines ?? built), lines };
+
+  // Adding or removing files changes their directory's mtime, and editing an ignore file changes which
+  // files are counted
+  const ignoreFiles = useGitignore
+    ? [
+        ...(await ancestorIgnoreFiles(projectPath)).map(([file]) => file),
+        ...directories.map((dir) => path.join(dir, ".gitignore")),
+      ]
+    : [];
+  for (const p of [...directories, ...ignoreFiles]) {
+    watched.push([p, await mtime(p)]);
+  }
+  await writeWatchedCache(LANGUAGE_CACHE, projectPath, key, watched, languages);
+  return languages;
+}
+
+/**
+ * Detect the language a project is written in from its files and build files.
+ * @param projectPath - the project to detect the language of
+ * @returns the project's language, or undefined if it can't be detected
+ */
+export async function detectLanguage(projectPath: string): Promise<string | undefined> {
+  return (await analyzeProject(projectPath)).primary;
+}
+
+/**
+ * Analyse the languages of several projects, a few at a time.
+ * @param projectPaths - the projects to analyse
+ * @returns map from each project's path to its languages
+ */
+export async function analyzeProjects(projectPaths: string[]): Promise<Record<string, ProjectLanguages>> {
+  const results: Record<string, ProjectLanguages> = {};
+  const queue = [...projectPaths];
+  const worker = async () => {
+    for (let p = queue.shift(); p !== undefined; p = queue.shift()) {
+      results[p] = await analyzeProject(p);
+    }
+  };
+  await Promise.all(Array.from({ length: ANALYZE_CONCURRENCY }, worker));
+  return results;
+}
+
+/**
+ * Delete cached languages for projects that no longer exist.
+ */
+export async function pruneLanguageCache(): Promise<void> {
+  await pruneWatchedCache(LANGUAGE_CACHE);
+}
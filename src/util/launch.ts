@@ -0,0 +1,20 @@
+import { launchCommand, LaunchType } from "@raycast/api";
+
+/** Launch context for commands that can start at a given puzzle, e.g. with a form pre-filled */
+export type PuzzleContext = {
+  year?: number;
+  day?: number;
+  part?: 1 | 2;
+};
+
+/** Commands that accept a `PuzzleContext` */
+export type PuzzleCommand = "open-project" | "create-project" | "submit-solution" | "view-stars";
+
+/**
+ * Launch another of the extension's commands at a given puzzle.
+ * @param name - the command to launch
+ * @param context - the puzzle to start at
+ */
+export async function launchForPuzzle(name: PuzzleCommand, context: PuzzleContext): Promise<void> {
+  await launchCommand({ name, type: LaunchType.UserInitiated, context });
+}
@@ -0,0 +1,145 @@
+import { CheerioAPI } from "cheerio";
+
+/** Any DOM node cheerio can hold (cheerio doesn't re-export domhandler's `AnyNode`) */
+type AnyNode = Exclude<Parameters<CheerioAPI["load"]>[0], string | Buffer | unknown[]>;
+
+/**
+ * Remove the dashes AoC puts around its headings, like "--- Part Two ---".
+ * @param heading - heading text to strip
+ * @returns the heading text without surrounding dashes
+ */
+export function stripHeadingDashes(heading: string): string {
+  return heading.replace(/^-+\s*|\s*-+$/g, "");
+}
+
+/**
+ * Escape characters in plain text that markdown would otherwise treat as formatting.
+ * @param text - text to escape
+ * @returns the escaped text
+ */
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_[\]<>]/g, "\\$&");
+}
+
+/**
+ * Wrap text in an inline code span, using a longer fence if the text contains backticks itself.
+ * @param text - raw text to put in the code span
+ * @returns the markdown code span
+ */
+function inlineCode(text: string): string {
+  const fence = text.includes("`") ? "``" : "`";
+  const pad = text.startsWith("`") || text.endsWith("`") ? " " : "";
+  return `${fence}${pad}${text}${pad}${fence}`;
+}
+
+/**
+ * Wrap text in a fenced code block, using a fence that's longer than any run of backticks in the
+ * text so the text can't close it early.
+ * @param text - raw text to put in the code block
+ * @returns the markdown code block
+ */
+export function codeBlock(text: string): string {
+  const fence = "`".repeat(Math.max(3, ...(text.match(/`+/g) ?? []).map((run) => run.length + 1)));
+  return `${fence}\n${text}\n${fence}`;
+}
+
+/**
+ * Wrap text in emphasis markers, keeping surrounding whitespace outside of the markers so markdown
+ * still recognises them.
+ * @param text - markdown text to emphasise
+ * @param marker - emphasis marker to use, like `*` or `**`
+ * @returns the emphasised text
+ */
+function emphasise(text: string, marker: string): string {
+  const m = text.match(/^(\s*)(.*?)(\s*)$/s);
+  if (!m || m[2] === "") {
+    return text;
+  }
+  const [, before, inner, after] = m;
+  return `${before}${marker}${inner}${marker}${after}`;
+}
+
+/**
+ * Convert a node and its children to markdown.
+ * @param $ - cheerio instance the node belongs to
+ * @param node - the node to convert
+ * @param baseUrl - URL to resolve relative links against
+ * @returns markdown for the node
+ */
+function nodeToMarkdown($: CheerioAPI, node: AnyNode, baseUrl: string): string {
+  if (node.type === "text") {
+    return escapeMarkdown($(node).text());
+  } else if (node.type !== "tag") {
+    // Comments, directives, etc.
+    return "";
+  }
+
+  const el = $(node);
+  const children = () =>
+    el
+      .contents()
+      .toArray()
+      .map((child) => nodeToMarkdown($, child, baseUrl))
+      .join("");
+
+  switch (node.tagName) {
+    case "h2":
+      return `## ${stripHeadingDashes(el.text())}\n\n`;
+    case "p":
+      return `${children().trim()}\n\n`;
+    case "pre":
+      // Code blocks keep their exact text, since formatting isn't possible inside them anyway
+      return "```\n" + el.text().replace(/\n$/, "") + "\n```\n\n";
+    case "code":
+      return inlineCode(el.text());
+    case "em":
+      return emphasise(children(), "*");
+    case "strong":
+      return emphasise(children(), "**");
+    case "a": {
+      const href = el.attr("href");
+      if (!href) {
+        return children();
+      }
+      return `[${children()}](${new URL(href, baseUrl).toString()})`;
+    }
+    case "ul":
+    case "ol":
+      return (
+        el
+          .children("li")
+          .toArray()
+          .map((li, i) => {
+            const bullet = node.tagName === "ol" ? `${i + 1}.` : "-";
+            const content = nodeToMarkdown($, li, baseUrl).trim().replace(/\n/g, "\n   ");
+            return `${bullet} ${content}`;
+          })
+          .join("\n") + "\n\n"
+      );
+    case "br":
+      return "  \n";
+    case "script":
+    case "style":
+      return "";
+    default:
+      return children();
+  }
+}
+
+/**
+ * Convert an HTML element (like an AoC `article.day-desc`) to markdown, keeping code blocks, inline
+ * code, emphasis, links and lists.
+ * @param $ - cheerio instance the element belongs to
+ * @param selector - selector or elements to convert
+ * @param baseUrl - URL to resolve relative links against
+ * @returns markdown for the element's contents
+ */
+export function htmlToMarkdown($: CheerioAPI, selector: ReturnType<CheerioAPI>, baseUrl: string): string {
+  return selector
+    .contents()
+    .toArray()
+    .map((child) => nodeToMarkdown($, child, baseUrl))
+    .join("")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
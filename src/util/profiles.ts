@@ -0,0 +1,132 @@
+import { getPreferenceValues, LocalStorage } from "@raycast/api";
+import { usePromise } from "@raycast/utils";
+import { randomUUID } from "node:crypto";
+
+/** An AoC account to use, along with where its projects are kept */
+export type Profile = {
+  id: string;
+  name: string;
+  sessionToken: string;
+  projectDirectory: string;
+};
+
+/** ID of the profile that comes from the extension preferences, which always exists */
+export const DEFAULT_PROFILE_ID = "default";
+
+/** Local storage key for the profiles added on top of the default one */
+const PROFILES_KEY = "profiles";
+/** Local storage key for the ID of the active profile */
+const ACTIVE_PROFILE_KEY = "profiles/active";
+
+/**
+ * Get the default profile, made from the session token and project directory in preferences.
+ * @returns the default profile
+ */
+function defaultProfile(): Profile {
+  const preferences = getPreferenceValues<Preferences>();
+  return {
+    id: DEFAULT_PROFILE_ID,
+    name: "Default",
+    sessionToken: preferences.sessionToken,
+    projectDirectory: preferences.projectDirectory,
+  };
+}
+
+/**
+ * Get the profiles added on top of the default one.
+ * @returns the added profiles, in the order they were added
+ */
+async function getAddedProfiles(): Promise<Profile[]> {
+  const stored = await LocalStorage.getItem<string>(PROFILES_KEY);
+  return stored ? JSON.parse(stored) : [];
+}
+
+/**
+ * Get every profile.
+ * @returns all profiles, starting with the default one
+ */
+export async function getProfiles(): Promise<Profile[]> {
+  return [defaultProfile(), ...(await getAddedProfiles())];
+}
+
+/**
+ * Get the profile commands should use.
+ * @returns the active profile, or the default profile if none has been chosen
+ */
+export async function getActiveProfile(): Promise<Profile> {
+  const activeId = await LocalStorage.getItem<string>(ACTIVE_PROFILE_KEY);
+  const profiles = await getProfiles();
+  // The active profile may have been deleted since it was chosen
+  return profiles.find((profile) => profile.id === activeId) ?? profiles[0];
+}
+
+/**
+ * Choose the profile commands should use.
+ * @param id - ID of the profile to use
+ */
+export async function setActiveProfile(id: string): Promise<void> {
+  await LocalStorage.setItem(ACTIVE_PROFILE_KEY, id);
+}
+
+/**
+ * Add a profile, or update an existing one if the ID is given. The default profile can only be
+ * changed in the extension preferences.
+ * @param profile - the profile to save, without an ID if it's new
+ * @returns the saved profile
+ */
+export async function saveProfile(profile: Omit<Profile, "id"> & { id?: string }): Promise<Profile> {
+  if (profile.id === DEFAULT_PROFILE_ID) {
+    throw new Error("The default profile can only be changed in preferences");
+  }
+
+  const saved = { ...profile, id: profile.id ?? randomUUID() };
+  const profiles = await getAddedProfiles();
+  const index = profiles.findIndex((it) => it.id === saved.id);
+  if (index === -1) {
+    profiles.push(saved);
+  } else {
+    profiles[index] = saved;
+  }
+  await LocalStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+  return saved;
+}
+
+/**
+ * Delete an added profile, along with the submissions and other data stored for it.
+ * @param id - ID of the profile to delete
+ */
+export async function deleteProfile(id: string): Promise<void> {
+  if (id === DEFAULT_PROFILE_ID) {
+    throw new Error("The default profile can't be deleted");
+  }
+
+  const profiles = await getAddedProfiles();
+  await LocalStorage.setItem(PROFILES_KEY, JSON.stringify(profiles.filter((it) => it.id !== id)));
+
+  const prefix = profileKey(id, "");
+  const items = await LocalStorage.allItems();
+  await Promise.all(
+    Object.keys(items)
+      .filter((key) => key.startsWith(prefix))
+      .map((key) => LocalStorage.removeItem(key)),
+  );
+}
+
+/**
+ * Get the local storage key for data kept separately for each profile, like submissions. The
+ * default profile uses the key as is, so data stored before profiles existed still belongs to it.
+ * @param profileId - ID of the profile the data belongs to
+ * @param key - the key the data would have without profiles
+ * @returns the key to use in local storage for the profile
+ */
+export function profileKey(profileId: string, key: string): string {
+  return profileId === DEFAULT_PROFILE_ID ? key : `profile/${profileId}/${key}`;
+}
+
+/**
+ * Load the active profile.
+ * @returns the active profile, along with whether it's loading
+ */
+export function useActiveProfile() {
+  return usePromise(getActiveProfile);
+}
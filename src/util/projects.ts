@@ -1,27 +1,296 @@
+import { getPreferenceValues } from "@raycast/api";
 import fs from "node:fs/promises";
 import path from "node:path";
 import { toArray } from "./utils";
 
-export type Project = { day: number; name: string; path: string };
+export type Project = {
+  day: number;
+  name: string;
+  path: string;
+  /** Notes about the project, from its manifest */
+  notes?: string;
+  /** Tags for finding the project later, like "dijkstra", from its manifest */
+  tags?: string[];
+};
+
+/** Notes and tags kept in a project's folder, so they move with it */
+export type ProjectManifest = Pick<Project, "notes" | "tags">;
+
+/** Name of the manifest file in each project's folder */
+export const MANIFEST_FILE = ".aoc.json";
+
+/** Folder in the project directory that archived projects are moved to, which is never searched */
+export const ARCHIVE_DIR = ".archive";
+
+/**
+ * Layout used when the preference isn't set. Projects made before layouts existed could have any
+ * name, so this layout is matched loosely: any folder with a number in its name counts, like
+ * `2022/day3` or `advent2023/day5-trebuchet`.
+ */
+export const DEFAULT_LAYOUT = "advent{year}/day{day}";
+
+/**
+ * Get the layout template projects are arranged in.
+ * @returns the layout template (from preferences), or the default layout if it isn't set
+ */
+export function projectLayout(): string {
+  return getPreferenceValues<Preferences>().projectLayout?.trim() || DEFAULT_LAYOUT;
+}
+
+/** Values that can appear in a layout */
+type LayoutField = "year" | "day" | "slug";
+
+/** A placeholder in a layout, like `{day:02}` */
+type Placeholder = { field: LayoutField; width?: number };
+
+/** One directory level of a layout, as literal text and placeholders */
+type Segment = (string | Placeholder)[];
 
-const dayRegex = /(\d{1,2})/;
-const yearRegex = /(\d{2,4})/;
+/** Values parsed from (or formatted into) a project's path */
+type LayoutValues = { year?: number; day?: number; slug?: string };
+
+/** Thrown when a layout from preferences can't be used */
+export class LayoutError extends Error {}
+
+const PLACEHOLDER_REGEX = /\{(year|day|slug)(?::0(\d))?\}/g;
+
+/**
+ * Split one directory level of a layout into literal text and placeholders.
+ * @param segment - the directory level, like `day{day:02}-{slug}`
+ * @returns the parts of the segment, in order
+ */
+function parseSegment(segment: string): Segment {
+  const parts: Segment = [];
+  let last = 0;
+  for (const m of segment.matchAll(PLACEHOLDER_REGEX)) {
+    parts.push(segment.slice(last, m.index));
+    parts.push({ field: m[1] as LayoutField, width: m[2] ? parseInt(m[2], 10) : undefined });
+    last = m.index + m[0].length;
+  }
+  parts.push(segment.slice(last));
+
+  const unknown = parts.find((part) => typeof part === "string" && /[{}]/.test(part));
+  if (unknown !== undefined) {
+    throw new LayoutError(`Unknown placeholder in layout segment "${segment}"`);
+  }
+  return parts.filter((part) => part !== "");
+}
 
 /**
- * Asynchronously retrieves all of the projects in the given year directory.
+ * Parse a layout template, like `{year}/day{day:02}-{slug}` or `{year}-{day:02}`. Each `/` is a
+ * directory level, and the last level is the project itself.
  *
- * @param yearDir - the year directory to walk.
- * @returns an async generator yielding projects in the year directory
+ * Placeholders are `{year}`, `{day}` and `{slug}` (the project name). `{year:02}` uses two-digit
+ * years and `{day:02}` pads days with zeros.
+ *
+ * @param template - the layout template (from preferences)
+ * @returns the directory levels of the layout
+ * @throws a `LayoutError` if the template is missing the year or day, or has unknown placeholders
  */
-export async function* walkYearDir(yearDir: string): AsyncGenerator<Project> {
-  const entries = await fs.opendir(yearDir);
-  for await (const entry of entries) {
-    if (entry.isDirectory()) {
-      const m = dayRegex.exec(entry.name);
-      if (m) {
-        const p = path.join(entry.parentPath, entry.name);
-        yield { day: parseInt(m[1], 10), name: entry.name, path: p };
+export function parseLayout(template: string): Segment[] {
+  const segments = template
+    .split("/")
+    .map((segment) => segment.trim())
+    .filter((segment) => segment.length > 0)
+    .map(parseSegment);
+
+  const count = (field: LayoutField) =>
+    segments.flat().filter((part) => typeof part !== "string" && part.field === field).length;
+  if (count("year") !== 1 || count("day") !== 1) {
+    throw new LayoutError(`Layout "${template}" must contain {year} and {day} exactly once`);
+  } else if (count("slug") > 1) {
+    throw new LayoutError(`Layout "${template}" can't contain {slug} more than once`);
+  }
+  return segments;
+}
+
+/**
+ * Whether a layout is matched loosely, like projects were found before layouts existed.
+ * @param template - the layout template (from preferences)
+ * @returns whether the layout is the default one
+ */
+export function isLooseLayout(template: string): boolean {
+  return template === DEFAULT_LAYOUT;
+}
+
+/**
+ * Whether a layout includes the project name, so it needs to be asked for when creating a project.
+ * @param template - the layout template (from preferences)
+ * @returns whether the layout contains `{slug}`
+ */
+export function layoutHasSlug(template: string): boolean {
+  return template.includes("{slug}");
+}
+
+/**
+ * Escape text so it's matched literally in a regex.
+ * @param text - text to escape
+ * @returns the escaped text
+ */
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Build a regex matching a whole directory name for one level of a layout.
+ * @param segment - the directory level
+ * @param loose - whether to only look for the first number in the name, ignoring the rest
+ * @returns a regex with a named group for each placeholder
+ */
+function segmentRegex(segment: Segment, loose: boolean): RegExp {
+  if (loose) {
+    const placeholder = segment.find((part) => typeof part !== "string");
+    if (placeholder?.field === "year") {
+      return /(?<year>\d{2,4})/;
+    } else if (placeholder?.field === "day") {
+      return /(?<day>\d{1,2})/;
+    }
+  }
+
+  const source = segment
+    .map((part) => {
+      if (typeof part === "string") {
+        return escapeRegex(part);
+      } else if (part.field === "slug") {
+        return "(?<slug>.+)";
+      } else if (part.field === "year") {
+        // Accept two-digit years even for `{year}`, since they're normalised anyway
+        return part.width === 2 ? "(?<year>\\d{2})" : "(?<year>\\d{4}|\\d{2})";
+      } else {
+        return part.width ? `(?<day>\\d{${part.width}})` : "(?<day>\\d{1,2})";
+      }
+    })
+    .join("");
+  return new RegExp(`^${source}$`, "i");
+}
+
+/**
+ * Turn a parsed year into a full year, e.g. 23 into 2023.
+ * @param year - the year as written in a directory name
+ * @returns the full year
+ */
+function normaliseYear(year: string): number {
+  const value = parseInt(year, 10);
+  return year.length <= 2 ? 2000 + value : value;
+}
+
+/**
+ * Parse a directory name for one level of a layout, checking it agrees with values parsed from
+ * higher levels.
+ * @param segment - the directory level
+ * @param name - the directory's name
+ * @param values - values parsed from higher levels
+ * @param loose - whether the layout is matched loosely
+ * @returns the values parsed so far, or undefined if the name doesn't match the layout
+ */
+function matchSegment(segment: Segment, name: string, values: LayoutValues, loose: boolean): LayoutValues | undefined {
+  const groups = segmentRegex(segment, loose).exec(name)?.groups;
+  if (!groups) {
+    return undefined;
+  }
+
+  const year = groups.year !== undefined ? normaliseYear(groups.year) : values.year;
+  const day = groups.day !== undefined ? parseInt(groups.day, 10) : values.day;
+  if (day !== undefined && day < 1) {
+    return undefined;
+  }
+  return { year, day, slug: groups.slug ?? values.slug };
+}
+
+/**
+ * Format one level of a layout with a project's values.
+ * @param segment - the directory level
+ * @param values - the project's values
+ * @returns the directory name for the level
+ */
+function formatSegment(segment: Segment, values: Required<LayoutValues>): string {
+  return segment
+    .map((part) => {
+      if (typeof part === "string") {
+        return part;
+      } else if (part.field === "slug") {
+        return values.slug;
       }
+      const value = values[part.field].toString();
+      // Shorten years to fit, e.g. 2023 to 23 for `{year:02}`
+      return part.width && value.length > part.width ? value.slice(-part.width) : value.padStart(part.width ?? 0, "0");
+    })
+    .join("");
+}
+
+/**
+ * Read a project's manifest.
+ * @param projectPath - the project's folder
+ * @returns the project's notes and tags, which are empty if it doesn't have a valid manifest
+ */
+export async function readManifest(projectPath: string): Promise<ProjectManifest> {
+  try {
+    const manifest = JSON.parse(await fs.readFile(path.join(projectPath, MANIFEST_FILE), "utf-8"));
+    return {
+      notes: typeof manifest.notes === "string" ? manifest.notes : undefined,
+      tags: Array.isArray(manifest.tags) ? manifest.tags.filter((tag: unknown) => typeof tag === "string") : undefined,
+    };
+  } catch {
+    // Most projects won't have a manifest
+    return {};
+  }
+}
+
+/**
+ * Save a project's notes and tags in its manifest, keeping anything else that's in it.
+ * @param projectPath - the project's folder
+ * @param manifest - the notes and tags to save
+ */
+export async function writeManifest(projectPath: string, manifest: ProjectManifest): Promise<void> {
+  const file = path.join(projectPath, MANIFEST_FILE);
+  let existing = {};
+  try {
+    existing = JSON.parse(await fs.readFile(file, "utf-8"));
+  } catch {
+    // There's no manifest yet, or it's unreadable and will be replaced
+  }
+  await fs.writeFile(file, JSON.stringify({ ...existing, ...manifest }, null, 2) + "\n");
+}
+
+/**
+ * Asynchronously retrieves all of the projects laid out under a directory.
+ *
+ * @param dir - the directory to walk
+ * @param segments - the levels of the layout left to walk
+ * @param values - values parsed from the levels walked so far
+ * @param loose - whether the layout is matched loosely
+ * @param year - only walk projects for this year, if given
+ * @returns an async generator yielding each project with its year
+ */
+async function* walkLayout(
+  dir: string,
+  segments: Segment[],
+  values: LayoutValues,
+  loose: boolean,
+  year?: number,
+): AsyncGenerator<Project & { year: number }> {
+  const [segment, ...rest] = segments;
+  const entries = await fs.opendir(dir);
+  for await (const entry of entries) {
+    if (!entry.isDirectory() || entry.name === ARCHIVE_DIR) {
+      continue;
+    }
+    const matched = matchSegment(segment, entry.name, values, loose);
+    if (!matched || (year !== undefined && matched.year !== undefined && matched.year !== year)) {
+      continue;
+    }
+
+    const fullPath = path.join(entry.parentPath, entry.name);
+    if (rest.length > 0) {
+      yield* walkLayout(fullPath, rest, matched, loose, year);
+    } else if (matched.year !== undefined && matched.day !== undefined) {
+      yield {
+        year: matched.year,
+        day: matched.day,
+        name: entry.name,
+        path: fullPath,
+        ...(await readManifest(fullPath)),
+      };
     }
   }
 }
@@ -30,72 +299,76 @@ export async function* walkYearDir(yearDir: string): AsyncGenerator<Project> {
  * Get a list of all the projects found for a given year.
  *
  * @param projectsDir - the base directory for all AoC projects (from preferences)
+ * @param layout - the layout template for projects (from preferences)
  * @param year - the year to compile completed days for
  * @returns a list of all the projects found for a given year
  */
-export async function completedDaysForYear(projectsDir: string, year: number): Promise<Project[]> {
-  const entries = await fs.opendir(projectsDir);
-
-  for await (const entry of entries) {
-    if (entry.isDirectory()) {
-      const m = yearRegex.exec(entry.name);
-      if (m && m[1] == year.toString()) {
-        const fullPath = path.join(entry.parentPath, entry.name);
-        return toArray(walkYearDir(fullPath));
-      }
-    }
-  }
-
-  return [];
+export async function completedDaysForYear(projectsDir: string, layout: string, year: number): Promise<Project[]> {
+  const projects = await toArray(walkLayout(projectsDir, parseLayout(layout), {}, isLooseLayout(layout), year));
+  return projects.map(({ day, name, path, notes, tags }) => ({ day, name, path, notes, tags }));
 }
 
 /**
  * Get a map of all the days completed for each year.
  *
  * @param projectsDir - the base directory for all AoC projects (from preferences)
+ * @param layout - the layout template for projects (from preferences)
  * @returns a map from year to a list of projects for the year.
  */
-export async function completedDays(projectsDir: string): Promise<Map<number, Project[]>> {
-  const entries = await fs.opendir(projectsDir);
+export async function completedDays(projectsDir: string, layout: string): Promise<Map<number, Project[]>> {
   // Maps from year to a list of days found
   const years = new Map<number, Project[]>();
 
-  for await (const entry of entries) {
-    if (entry.isDirectory()) {
-      const m = yearRegex.exec(entry.name);
-      if (m) {
-        const year = parseInt(m[1], 10);
-        const fullPath = path.join(entry.parentPath, entry.name);
-        const days = await toArray(walkYearDir(fullPath));
-        days.sort((a, b) => b.day - a.day);
-        years.set(year, days);
-      }
-    }
+  for await (const { year, ...project } of walkLayout(projectsDir, parseLayout(layout), {}, isLooseLayout(layout))) {
+    const days = years.get(year) ?? [];
+    days.push(project);
+    years.set(year, days);
+  }
+  for (const days of years.values()) {
+    days.sort((a, b) => b.day - a.day);
   }
 
   return years;
 }
 
 /**
- * Get a map of the absolutely path for each year.
+ * Get the path a new project should be created at. Existing directories for higher levels of the
+ * layout are reused if they match, so e.g. an existing `aoc23` is used instead of making `aoc2023`.
+ * The default layout names projects with the slug as is, like projects were before layouts existed.
  *
  * @param projectsDir - the base directory for all AoC projects (from preferences)
- * @returns a map from year to the absolute path for the year's projects
+ * @param layout - the layout template for projects (from preferences)
+ * @param year - the year of the project
+ * @param day - the day of the project
+ * @param slug - the project name, for layouts with `{slug}` or the default layout
+ * @returns the absolute path for the project
  */
-export async function yearDirectories(projectsDir: string): Promise<Map<number, string>> {
-  const entries = await fs.opendir(projectsDir);
-  const directories = new Map<number, string>();
-  for await (const entry of entries) {
-    if (entry.isDirectory()) {
-      const m = yearRegex.exec(entry.name);
-      if (m) {
-        const year = parseInt(m[1], 10);
-        const fullPath = path.join(entry.parentPath, entry.name);
-        directories.set(year, fullPath);
-      }
-    }
+export async function projectPath(
+  projectsDir: string,
+  layout: string,
+  year: number,
+  day: number,
+  slug: string,
+): Promise<string> {
+  const values = { year, day, slug };
+  const loose = isLooseLayout(layout);
+  let dir = projectsDir;
+  let parsed: LayoutValues = {};
+
+  const segments = parseLayout(layout);
+  for (const [i, segment] of segments.entries()) {
+    const isProject = i === segments.length - 1;
+    const existing = isProject ? [] : await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+    const match = existing.find((entry) => {
+      const matched = entry.isDirectory() && matchSegment(segment, entry.name, parsed, loose);
+      return matched && (matched.year ?? year) === year && (matched.day ?? day) === day;
+    });
+
+    const name = match?.name ?? (isProject && loose ? slug : formatSegment(segment, values));
+    parsed = matchSegment(segment, name, parsed, loose) ?? parsed;
+    dir = path.join(dir, name);
   }
-  return directories;
+  return dir;
 }
 
 // Type guard for Node.js errors with a `code` property
@@ -125,3 +398,49 @@ export async function pathDoesntExist(path: string): Promise<void> {
     throw e;
   }
 }
+
+/**
+ * Rename a project's folder. The new name has to fit the last level of the layout with the same
+ * year and day, so the project is still found afterwards.
+ *
+ * @param layout - the layout template for projects (from preferences)
+ * @param year - the project's year
+ * @param project - the project to rename
+ * @param name - the new name for the project's folder
+ * @returns the project's new path
+ * @throws a `LayoutError` if the name doesn't fit the layout for the project's year and day, or a
+ * `ProjectError` if there's already a folder with the name
+ */
+export async function renameProject(layout: string, year: number, project: Project, name: string): Promise<string> {
+  const segments = parseLayout(layout);
+  const matched =
+    !/[/\\]/.test(name) &&
+    matchSegment(segments[segments.length - 1], name, { year, day: project.day }, isLooseLayout(layout));
+  if (!matched || matched.year !== year || matched.day !== project.day) {
+    throw new LayoutError(`"${name}" doesn't fit the project layout for ${year} day ${project.day}`);
+  }
+
+  const dest = path.join(path.dirname(project.path), name);
+  if (dest !== project.path) {
+    await pathDoesntExist(dest);
+    await fs.rename(project.path, dest);
+  }
+  return dest;
+}
+
+/**
+ * Move a project into the archive folder, keeping its path relative to the project directory so
+ * it can be moved back by hand.
+ *
+ * @param projectsDir - the base directory for all AoC projects (from preferences)
+ * @param project - the project to archive
+ * @returns the project's path in the archive
+ * @throws a `ProjectError` if the project has already been archived
+ */
+export async function archiveProject(projectsDir: string, project: Project): Promise<string> {
+  const dest = path.join(projectsDir, ARCHIVE_DIR, path.relative(projectsDir, project.path));
+  await pathDoesntExist(dest);
+  await fs.mkdir(path.dirname(dest), { recursive: true });
+  await fs.rename(project.path, dest);
+  return dest;
+}
@@ -0,0 +1,130 @@
+import { spawn } from "node:child_process";
+import fs from "node:fs/promises";
+import path from "node:path";
+
+/** How to run a project in a given language */
+export type RunConfig = {
+  /** File whose presence in the project picks this config, like `Cargo.toml` */
+  marker: string;
+  /** Display name for the language */
+  language: string;
+  /** Shell command to run the project with */
+  command: string;
+};
+
+/**
+ * Get the configured run commands, in the order their marker files are checked.
+ * @param preferences - Open Project preferences with the commands for each language
+ * @returns the run config for each language
+ */
+export function runConfigs(preferences: Preferences.OpenProject): RunConfig[] {
+  return [
+    { marker: "Cargo.toml", language: "Rust", command: preferences.rustRunCommand },
+    { marker: "go.mod", language: "Go", command: preferences.goRunCommand },
+    { marker: "package.json", language: "JavaScript", command: preferences.nodeRunCommand },
+    { marker: "main.py", language: "Python", command: preferences.pythonRunCommand },
+  ];
+}
+
+/**
+ * Find the run config to use for a project, based on the marker files in it.
+ * @param projectPath - the project to find the run config for
+ * @param configs - configs to pick from, in priority order
+ * @returns the first config whose marker file is in the project, or undefined if none are
+ */
+export async function detectRunConfig(projectPath: string, configs: RunConfig[]): Promise<RunConfig | undefined> {
+  for (const config of configs) {
+    try {
+      await fs.access(path.join(projectPath, config.marker), fs.constants.F_OK);
+      return config;
+    } catch {
+      // Marker doesn't exist, so try the next language
+    }
+  }
+  return undefined;
+}
+
+/** Milliseconds a stopped solution has to exit before it's killed */
+const KILL_GRACE_MS = 2000;
+
+export type RunResult = {
+  /** The process's exit code, or null if it was killed */
+  exitCode: number | null;
+  /** Whether the process was killed for running past the timeout */
+  timedOut: boolean;
+};
+
+/** A running solution, which can be stopped before it finishes */
+export type RunHandle = {
+  result: Promise<RunResult>;
+  stop: () => void;
+};
+
+/**
+ * Run a command in a project through the user's login shell, so tools like `cargo` are on the
+ * `PATH` like they would be in a terminal.
+ *
+ * @param command - shell command to run
+ * @param cwd - directory to run the command in
+ * @param timeoutMs - milliseconds before the command is stopped
+ * @param onOutput - callback for each chunk of output, with whether it came from stdout or stderr
+ * @returns a handle for the running command
+ */
+export function runCommand(
+  command: string,
+  cwd: string,
+  timeoutMs: number,
+  onOutput: (chunk: string, stream: "stdout" | "stderr") => void,
+): RunHandle {
+  const shell = process.env.SHELL || "/bin/sh";
+  // Run in a new process group, so stopping it also stops anything the command started
+  const child = spawn(shell, ["-l", "-c", command], { cwd, detached: true });
+
+  // Output is closed once everything in the process group that shares it has exited
+  let closed = false;
+  let killTimer: NodeJS.Timeout | undefined;
+
+  /**
+   * Send a signal to the command's process group.
+   * @param signal - the signal to send
+   */
+  const signalGroup = (signal: NodeJS.Signals) => {
+    if (child.pid !== undefined && !closed) {
+      try {
+        process.kill(-child.pid, signal);
+      } catch {
+        // Process already exited
+      }
+    }
+  };
+
+  const stop = () => {
+    signalGroup("SIGTERM");
+    // Solutions can trap or ignore SIGTERM, so make sure they stop eventually
+    killTimer ??= setTimeout(() => signalGroup("SIGKILL"), KILL_GRACE_MS);
+  };
+
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    stop();
+  }, timeoutMs);
+
+  child.stdout.on("data", (data: Buffer) => onOutput(data.toString(), "stdout"));
+  child.stderr.on("data", (data: Buffer) => onOutput(data.toString(), "stderr"));
+
+  const result = new Promise<RunResult>((resolve, reject) => {
+    child.on("error", (e) => {
+      clearTimeout(timer);
+      reject(e);
+    });
+    child.on("close", (exitCode) => {
+      closed = true;
+      clearTimeout(timer);
+      clearTimeout(killTimer);
+      resolve({ exitCode, timedOut });
+    });
+  });
+
+  return { result, stop };
+}
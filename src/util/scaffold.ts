@@ -0,0 +1,61 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { saveExamples, saveInput } from "./api";
+import { pathDoesntExist, projectPath } from "./projects";
+import { copyTemplate } from "./templates";
+
+/** A newly created project */
+export type CreatedProject = {
+  path: string;
+  /** Why the examples couldn't be saved, if they couldn't */
+  examplesError?: unknown;
+};
+
+/**
+ * Create the project where the layout puts it, creating any parent
+ * directories if necessary. The day's input and examples are saved in the
+ * project, though failing to save the examples doesn't stop the project being
+ * created, since they can be saved again from Open Project. If the input can't
+ * be saved, the project is removed again.
+ * @param baseDir - the base projects directory
+ * @param layout - the layout template for projects
+ * @param currYear - the year of the project
+ * @param day - the day of the project
+ * @param slug - the project name, for layouts with `{slug}`
+ * @param sessionToken - the session token, to download input.txt
+ * @param templatePath - the template to copy into the project, if any
+ * @returns the created project, with any error from saving its examples
+ */
+export async function createProject(
+  baseDir: string,
+  layout: string,
+  currYear: number,
+  day: number,
+  slug: string,
+  sessionToken: string,
+  templatePath?: string,
+): Promise<CreatedProject> {
+  const dest = await projectPath(baseDir, layout, currYear, day, slug);
+
+  await pathDoesntExist(dest);
+
+  // The project doesn't exist already, so make it
+  await fs.mkdir(dest, { recursive: true });
+  try {
+    if (templatePath) {
+      await copyTemplate(templatePath, dest, { year: currYear, day, projectName: path.basename(dest) });
+    }
+    await saveInput(currYear, day, dest, sessionToken);
+  } catch (e) {
+    // Don't leave an empty project behind, since it would look like the day had been started and
+    // creating it again would fail
+    await fs.rm(dest, { recursive: true, force: true });
+    throw e;
+  }
+  try {
+    await saveExamples(currYear, day, dest, sessionToken);
+  } catch (e) {
+    return { path: dest, examplesError: e };
+  }
+  return { path: dest };
+}
@@ -0,0 +1,352 @@
+import { captureException, launchCommand, LaunchType, LocalStorage, showToast, Toast } from "@raycast/api";
+import { AnswerHint, AocError, answerRejection, getAnswerBounds, sendSolution, SolveStatus } from "./api";
+import { DEFAULT_PROFILE_ID, Profile, profileKey } from "./profiles";
+
+/** Values for a single submission. These are strings, since Raycast forces form values to be `string`. */
+export type Submission = {
+  year: string;
+  day: string;
+  part: string;
+  answer: string;
+};
+
+/**
+ * Handle errors, either by surfacing them as toasts if they are expected, or
+ * by capturing them.
+ * @param e - error to handle
+ */
+export function handleSubmitError(e: unknown) {
+  if (e instanceof AocError) {
+    if (e.name === "RATE_LIMIT") {
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Rate limit",
+        message: e.message,
+      });
+    } else if (e.name === "INVALID_SESSION_TOKEN") {
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid session token",
+        message: "Check session token in extension preferences",
+      });
+    } else if (e.name === "OFFLINE") {
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Unable to submit answer",
+        message: "Answers can't be submitted in offline mode",
+      });
+    } else if (e.name === "SERVER_ERROR") {
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Unable to submit answer",
+        message: "Advent of Code is having trouble, so try again soon",
+      });
+    } else if (e.name === "SOLVE_ERROR") {
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Unable to submit answer",
+        message: e.message,
+      });
+    } else {
+      captureException(e);
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Unable to submit answer",
+      });
+    }
+  }
+}
+
+/**
+ * Convert from the string value to the part type, since Raycast forces
+ * dropdown values to be `string`.
+ * @param part - string version of part, either "1" or "2" (form validation
+ * prevents other values)
+ */
+function parsePart(part: string): 1 | 2 {
+  const p = parseInt(part);
+  if (p === 1 || p === 2) {
+    return p;
+  }
+  throw new Error(`Invalid part ${p}`);
+}
+
+/** What AoC said about a submission */
+export type SubmissionOutcome = "success" | "wrong" | "rate-limited" | "already-solved" | "wrong-level" | "unknown";
+
+/** A submission that reached AoC, as saved in local storage */
+export type SubmissionRecord = {
+  answer: string;
+  /** When the answer was submitted, in ms since the epoch (unknown for entries from before records were kept) */
+  timestamp?: number;
+  outcome: SubmissionOutcome;
+  /** AoC's hint for wrong answers */
+  hint?: AnswerHint;
+  /** AoC's message about waiting before the next submission */
+  waitMessage?: string;
+  /** AoC's full response */
+  response?: string;
+};
+
+/** A submission record along with the puzzle it was for */
+export type PuzzleSubmissionRecord = SubmissionRecord & { year: number; day: number; part: 1 | 2 };
+
+const SUBMISSIONS_PREFIX = "submissions/";
+
+/**
+ * Get the local storage key used for a given profile, year, day and part combo.
+ * @param profileId - ID of the profile that made the submissions
+ * @param year - year to retrieve data for
+ * @param day - day to retrieve data for
+ * @param part - part (1 or 2) to retrieve data for
+ * @returns the key used in local storage for the profile, year, day, part combo
+ */
+function storageKey(profileId: string, year: string | number, day: string | number, part: string | number): string {
+  return profileKey(profileId, `${SUBMISSIONS_PREFIX}${year}/${day}/${part}`);
+}
+
+/** Keys from before records were kept, which held newline-separated answers */
+const LEGACY_KEY_REGEX = /^(\d+)\/(\d+)\/([12])$/;
+
+/**
+ * Convert any submissions saved as newline-separated answers (before records were kept) into
+ * records. This is safe to call repeatedly, since legacy entries are removed once converted. Legacy
+ * submissions were made before profiles existed, so they belong to the default profile.
+ */
+async function migrateLegacySubmissions(): Promise<void> {
+  const items = await LocalStorage.allItems<Record<string, string>>();
+  for (const [key, value] of Object.entries(items)) {
+    const m = LEGACY_KEY_REGEX.exec(key);
+    if (!m) {
+      continue;
+    }
+
+    const [, year, day, part] = m;
+    const legacy: SubmissionRecord[] = value
+      .split("\n")
+      .filter((answer) => answer.length > 0)
+      .map((answer) => ({ answer, outcome: "unknown" }));
+    const existing = await getSubmissions(DEFAULT_PROFILE_ID, parseInt(year), parseInt(day), parsePart(part));
+
+    // Legacy submissions all happened before any records
+    await LocalStorage.setItem(
+      storageKey(DEFAULT_PROFILE_ID, year, day, part),
+      JSON.stringify([...legacy, ...existing]),
+    );
+    await LocalStorage.removeItem(key);
+  }
+}
+
+/**
+ * Get the submissions made for a given part, oldest first.
+ * @param profileId - ID of the profile that made the submissions
+ * @param year - year of the puzzle
+ * @param day - day of the puzzle
+ * @param part - part of the puzzle
+ * @returns the submission records for the part
+ */
+async function getSubmissions(profileId: string, year: number, day: number, part: 1 | 2): Promise<SubmissionRecord[]> {
+  const stored = await LocalStorage.getItem<string>(storageKey(profileId, year, day, part));
+  return stored ? JSON.parse(stored) : [];
+}
+
+/**
+ * Get the submissions made for a given part, oldest first, converting any legacy entries first.
+ * @param profileId - ID of the profile that made the submissions
+ * @param year - year of the puzzle
+ * @param day - day of the puzzle
+ * @param part - part of the puzzle
+ * @returns the submission records for the part
+ */
+export async function getPartSubmissions(
+  profileId: string,
+  year: number,
+  day: number,
+  part: 1 | 2,
+): Promise<SubmissionRecord[]> {
+  await migrateLegacySubmissions();
+  return getSubmissions(profileId, year, day, part);
+}
+
+/**
+ * Get every submission a profile has made, newest first.
+ * @param profileId - ID of the profile that made the submissions
+ * @returns all the profile's submission records, with the puzzle each was for
+ */
+export async function getAllSubmissions(profileId: string): Promise<PuzzleSubmissionRecord[]> {
+  await migrateLegacySubmissions();
+  const items = await LocalStorage.allItems<Record<string, string>>();
+  const prefix = profileKey(profileId, SUBMISSIONS_PREFIX);
+
+  const records = Object.entries(items)
+    .filter(([key]) => key.startsWith(prefix))
+    .flatMap(([key, value]) => {
+      const [year, day, part] = key.slice(prefix.length).split("/");
+      return (JSON.parse(value) as SubmissionRecord[]).map((record) => ({
+        ...record,
+        year: parseInt(year),
+        day: parseInt(day),
+        part: parsePart(part),
+      }));
+    });
+
+  // Legacy records without a timestamp go last, since they're the oldest
+  return records.toSorted((a, b) => (b.timestamp ?? 0) - (a.timestamp ?? 0));
+}
+
+/**
+ * Log a submission in local storage, so we can retrieve the submitted answer
+ * and AoC's response later.
+ * @param profileId - ID of the profile that made the submission
+ * @param values - submission values to log
+ * @param record - details of the submission's outcome
+ */
+async function logSubmission(
+  profileId: string,
+  values: Submission,
+  record: Omit<SubmissionRecord, "answer" | "timestamp">,
+) {
+  const year = parseInt(values.year);
+  const day = parseInt(values.day);
+  const part = parsePart(values.part);
+
+  const records = await getPartSubmissions(profileId, year, day, part);
+  records.push({ answer: values.answer.trim(), timestamp: Date.now(), ...record });
+  await LocalStorage.setItem(storageKey(profileId, year, day, part), JSON.stringify(records));
+}
+
+/**
+ * Describe a submission's outcome in a few words, like "Correct" or "Too high".
+ * @param record - the submission to describe
+ * @returns a short description of the outcome
+ */
+export function describeOutcome(record: SubmissionRecord): string {
+  switch (record.outcome) {
+    case "success":
+      return "Correct";
+    case "wrong":
+      return record.hint ? `Too ${record.hint}` : "Wrong";
+    case "rate-limited":
+      return "Rate limited";
+    case "already-solved":
+      return "Already solved";
+    case "wrong-level":
+      return "Wrong part";
+    case "unknown":
+      return "Unknown";
+  }
+}
+
+/**
+ * Find the sentence asking us to wait before submitting again in an AoC response.
+ * @param response - AoC's response
+ * @returns the sentence about waiting, if there is one
+ */
+function waitMessage(response: string): string | undefined {
+  return response.match(/[^.!?]*\bwait\b[^.!?]*[.!?]/i)?.[0].trim();
+}
+
+/**
+ * Submit an answer, logging it and reporting the outcome with toasts (and
+ * confetti, if desired).
+ * @param values - the submission to send
+ * @param profile - the profile to submit as
+ * @param showConfetti - whether to show confetti after a correct answer
+ * @returns the submission's result, or undefined if it failed with an error or
+ * was refused because the answer is already known to be wrong
+ */
+export async function submitAnswer(
+  values: Submission,
+  profile: Profile,
+  showConfetti: boolean,
+): Promise<SolveStatus | undefined> {
+  const year = parseInt(values.year);
+  const day = parseInt(values.day);
+  const part = parsePart(values.part);
+  const answer = values.answer.trim();
+
+  // Don't use up an attempt on an answer we already know is wrong
+  const rejection = answerRejection(await getAnswerBounds(profile.id, year, day, part), answer);
+  if (rejection) {
+    showToast({
+      style: Toast.Style.Failure,
+      title: "Answer not submitted",
+      message: rejection,
+    });
+    return;
+  }
+
+  showToast({
+    style: Toast.Style.Animated,
+    title: "Submitting answer",
+  });
+  try {
+    const res = await sendSolution(year, day, part, answer, profile);
+    if (res.status === "wait") {
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Rate limit",
+        message: res.message,
+      });
+    } else if (res.status === "success" || res.status === "day-complete") {
+      // Save our submission, since it went through
+      await logSubmission(profile.id, values, { outcome: "success", response: res.message });
+
+      // Respect preference for showing confetti
+      try {
+        if (showConfetti) {
+          launchCommand({
+            name: "confetti",
+            extensionName: "raycast",
+            ownerOrAuthorName: "raycast",
+            type: LaunchType.UserInitiated,
+          });
+        }
+      } catch {
+        // Not important if the command errors, since it's just for flair
+      }
+      showToast({
+        style: Toast.Style.Success,
+        title:
+          res.status === "day-complete"
+            ? `Finished ${values.year}/${values.day}!`
+            : `Solved ${values.year}/${values.day} part ${values.part}!`,
+      });
+    } else if (res.status === "wrong") {
+      await logSubmission(profile.id, values, {
+        outcome: "wrong",
+        hint: res.hint,
+        waitMessage: waitMessage(res.message),
+        response: res.message,
+      });
+      showToast({
+        style: Toast.Style.Failure,
+        title: res.hint ? `Wrong answer (too ${res.hint})` : "Wrong answer",
+        message: res.message,
+      });
+    } else if (res.status === "already-solved") {
+      await logSubmission(profile.id, values, { outcome: "already-solved", response: res.message });
+      showToast({
+        style: Toast.Style.Failure,
+        title: `Already solved ${values.year}/${values.day} part ${values.part}`,
+        message: res.message,
+      });
+    } else if (res.status === "wrong-level") {
+      await logSubmission(profile.id, values, { outcome: "wrong-level", response: res.message });
+      showToast({
+        style: Toast.Style.Failure,
+        title: `Part ${values.part} isn't unlocked yet`,
+        message: res.message,
+      });
+    }
+    return res;
+  } catch (e: unknown) {
+    // These errors still reached AoC, so they count as submissions
+    if (e instanceof AocError && e.name === "RATE_LIMIT") {
+      await logSubmission(profile.id, values, { outcome: "rate-limited", waitMessage: e.message, response: e.message });
+    } else if (e instanceof AocError && e.name === "SOLVE_ERROR") {
+      await logSubmission(profile.id, values, { outcome: "unknown", response: e.message });
+    }
+    handleSubmitError(e);
+  }
+}
@@ -0,0 +1,68 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+/** Values substituted into template file names and contents */
+export type TemplateValues = { year: number; day: number; projectName: string };
+
+/**
+ * Get the names of all the templates (folders) in the templates directory.
+ *
+ * @param templatesDir - the directory containing templates (from preferences)
+ * @returns the sorted names of templates, or an empty list if there's no templates directory
+ */
+export async function listTemplates(templatesDir: string | undefined): Promise<string[]> {
+  if (!templatesDir) {
+    return [];
+  }
+  const entries = await fs.readdir(templatesDir, { withFileTypes: true });
+  return entries
+    .filter((entry) => entry.isDirectory() && !entry.name.startsWith("."))
+    .map((entry) => entry.name)
+    .toSorted((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Replace template placeholders (`{{year}}`, `{{day}}`, `{{day2}}` and `{{projectName}}`) in text.
+ * @param text - text to substitute values into
+ * @param values - values for the placeholders
+ * @returns the text with placeholders replaced
+ */
+function substitute(text: string, values: TemplateValues): string {
+  const replacements: { [key: string]: string } = {
+    year: values.year.toString(),
+    day: values.day.toString(),
+    day2: values.day.toString().padStart(2, "0"),
+    projectName: values.projectName,
+  };
+  return text.replace(/\{\{(\w+)\}\}/g, (match, key: string) => replacements[key] ?? match);
+}
+
+/**
+ * Recursively copy a template into a project, substituting values into file names and the contents
+ * of text files. Binary files (those containing a null byte) are copied as-is.
+ *
+ * @param templatePath - the template folder to copy from
+ * @param dest - the project folder to copy into, which should already exist
+ * @param values - values for the template's placeholders
+ */
+export async function copyTemplate(templatePath: string, dest: string, values: TemplateValues): Promise<void> {
+  const entries = await fs.readdir(templatePath, { withFileTypes: true });
+  for (const entry of entries) {
+    const src = path.join(templatePath, entry.name);
+    const target = path.join(dest, substitute(entry.name, values));
+
+    if (entry.isDirectory()) {
+      await fs.mkdir(target, { recursive: true });
+      await copyTemplate(src, target, values);
+    } else if (entry.isFile()) {
+      const content = await fs.readFile(src);
+      const { mode } = await fs.stat(src);
+      // Keep permissions, so scripts in the template stay executable
+      if (content.includes(0)) {
+        await fs.writeFile(target, content, { mode, flag: "wx" });
+      } else {
+        await fs.writeFile(target, substitute(content.toString(), values), { mode, flag: "wx" });
+      }
+    }
+  }
+}
@@ -0,0 +1,177 @@
+import { getPreferenceValues } from "@raycast/api";
+import { Ignore } from "ignore";
+import { Dirent } from "node:fs";
+import fs from "node:fs/promises";
+import path from "node:path";
+import {
+  ancestorIgnoreFiles,
+  ancestorIgnores,
+  baseIgnore,
+  GitignoreRules,
+  isIgnored,
+  mtime,
+  pruneWatchedCache,
+  readWatchedCache,
+  respectGitignore,
+  withGitignore,
+  writeWatchedCache,
+} from "./files";
+
+/** Name of the on-disk cache for trees */
+const TREE_CACHE = "tree-cache";
+
+/** Limits on how much of a project's tree is shown */
+export type TreeOptions = {
+  /** Levels of directories to show the contents of */
+  maxDepth: number;
+  /** Entries to show in each directory before the rest are summarised */
+  maxEntries: number;
+};
+
+/** State shared while building a tree */
+type TreeWalk = {
+  base: Ignore;
+  useGitignore: boolean;
+  options: TreeOptions;
+  /** Directories that have been walked and ignore files that apply to them, with their mtimes */
+  watched: [string, number][];
+};
+
+/**
+ * Sort a and b, placing directories earlier and breaking any ties by lexicographic order.
+ * @param a - file or directory in a tree
+ * @param b - file or directory in a tree
+ * @returns a negative number if a is smaller than b, 0 if they are equal, or a
+ * positive number b is greater than a
+ */
+function sortTreeEntries(a: Dirent, b: Dirent): number {
+  const aDir = a.isDirectory();
+  const bDir = b.isDirectory();
+  if (aDir && !bDir) {
+    return -1;
+  } else if (!aDir && bDir) {
+    return 1;
+  } else {
+    return a.name.localeCompare(b.name);
+  }
+}
+
+/**
+ * Find the directory a symlink points to.
+ * @param p - path of the symlink
+ * @returns the real path of the directory, or undefined if the link is to a file or is broken
+ */
+async function linkedDirectory(p: string): Promise<string | undefined> {
+  try {
+    return (await fs.stat(p)).isDirectory() ? await fs.realpath(p) : undefined;
+  } catch {
+    // Broken links are shown like files
+    return undefined;
+  }
+}
+
+/**
+ * @param dir - directory to convert to a tree
+ * @param walk - settings and state for the whole tree
+ * @param ignores - the ignores we've built up from recursing through
+ * directories. Includes the patterns and the directory they were found in, so
+ * we can test paths relative to that directory.
+ * @param ancestors - real paths of the directories above this one, so symlink loops aren't followed
+ * @param depth - how many directories deep we are
+ * @param indent - the current indent characters, built through recursion
+ * @returns tree string starting from the given directory
+ */
+async function getFileTreeString(
+  dir: string,
+  walk: TreeWalk,
+  ignores: GitignoreRules[],
+  ancestors: Set<string>,
+  depth: number = 0,
+  indent: string = "",
+): Promise<string> {
+  walk.watched.push([dir, await mtime(dir)]);
+  if (walk.useGitignore) {
+    // Editing a .gitignore in place doesn't change its directory's mtime, so watch it too
+    const gitignore = path.join(dir, ".gitignore");
+    walk.watched.push([gitignore, await mtime(gitignore)]);
+    // Extent the ignore with the additional info
+    ignores = await withGitignore(dir, ignores);
+  }
+
+  const pairs = (await fs.readdir(dir, { withFileTypes: true }))
+    .filter((d) => !isIgnored(d, walk.base, ignores))
+    .toSorted(sortTreeEntries);
+  const shown = pairs.slice(0, walk.options.maxEntries);
+  const hidden = pairs.length - shown.length;
+
+  let treeString = "";
+  for (const [i, d] of shown.entries()) {
+    const isLast = i === shown.length - 1 && hidden === 0;
+    const p = path.join(d.parentPath, d.name);
+    const realDir = d.isDirectory() ? await fs.realpath(p) : d.isSymbolicLink() ? await linkedDirectory(p) : undefined;
+
+    let name = d.name;
+    if (realDir !== undefined) {
+      name += "/";
+      if (ancestors.has(realDir)) {
+        name += " ↺";
+      } else if (depth + 1 >= walk.options.maxDepth) {
+        name += " …";
+      }
+    }
+    treeString += `${indent}${isLast ? "└─ " : "├─ "}${name}\n`;
+
+    // Recursively add children to the tree string with the appropriate indent, unless the
+    // directory is too deep or links back to one of its ancestors
+    if (realDir !== undefined && !ancestors.has(realDir) && depth + 1 < walk.options.maxDepth) {
+      treeString += await getFileTreeString(
+        p,
+        walk,
+        ignores,
+        new Set([...ancestors, realDir]),
+        depth + 1,
+        indent + (isLast ? "   " : "│  "),
+      );
+    }
+  }
+  if (hidden > 0) {
+    treeString += `${indent}└─ … ${hidden} more\n`;
+  }
+  return treeString;
+}
+
+/**
+ * Get the tree for a directory, from the on-disk cache if no directory in it (or ignore file that
+ * applies to it) has been modified since it was built.
+ *
+ * @param dir - directory to convert to a tree
+ * @param options - limits on how much of the tree to show
+ * @returns a markdown string containing the tree for `dir`
+ */
+export async function getTreeMarkdown(dir: string, options: TreeOptions): Promise<string> {
+  const preferences = getPreferenceValues<Preferences>();
+  const key = JSON.stringify([options, preferences.ignoreList, preferences.respectGitignore]);
+
+  let tree = await readWatchedCache<string>(TREE_CACHE, dir, key);
+  if (tree === undefined) {
+    const walk: TreeWalk = { base: baseIgnore(), useGitignore: respectGitignore(), options, watched: [] };
+    // Rules from the enclosing repo apply too, like they would for git
+    const ignores = walk.useGitignore ? await ancestorIgnores(dir) : [];
+    if (walk.useGitignore) {
+      for (const [ignoreFile] of await ancestorIgnoreFiles(dir)) {
+        walk.watched.push([ignoreFile, await mtime(ignoreFile)]);
+      }
+    }
+    tree = await getFileTreeString(dir, walk, ignores, new Set([await fs.realpath(dir)]));
+
+    await writeWatchedCache(TREE_CACHE, dir, key, walk.watched, tree);
+  }
+  return "# Tree\n```\n" + tree + "```";
+}
+
+/**
+ * Delete cached trees for projects that no longer exist.
+ */
+export async function pruneTreeCache(): Promise<void> {
+  await pruneWatchedCache(TREE_CACHE);
+}
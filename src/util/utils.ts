@@ -28,3 +28,89 @@ export function removeKeys<T extends object>(obj: T, ...keys: (keyof T)[]) {
   }
   return copy;
 }
+
+/**
+ * Formats dates into a short form (according to locale) like "01/01 at 12:41pm".
+ * @param date - date to format
+ * @returns formatted version of date
+ */
+export function formatDate(date: Date): string {
+  const datePart = date.toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+
+  const timePart = date.toLocaleTimeString(undefined, {
+    hour: "numeric",
+    minute: "2-digit",
+    second: "2-digit",
+    hour12: true,
+  });
+
+  return `${datePart} at ${timePart}`;
+}
+
+/**
+ * Turn a puzzle's title into a project name, like "Day 1: Trebuchet?!" into "trebuchet".
+ * @param title - the puzzle's title
+ * @returns the title in lowercase, with words separated by dashes
+ */
+export function slugify(title: string): string {
+  return title
+    .replace(/^Day \d+:\s*/, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+/**
+ * Add the logged-in account's name to a view's title.
+ * @param title - the view's title
+ * @param accountName - the account's name, or undefined if it isn't known
+ * @returns the title, with the account's name if it's known
+ */
+export function withAccount(title: string, accountName: string | undefined): string {
+  return accountName ? `${title} · ${accountName}` : title;
+}
+
+/**
+ * Add when a view's data was cached to its title, so it's clear the data may be out of date.
+ * @param title - the view's title
+ * @param cachedAt - when the data was cached, or undefined if it came from the network
+ * @returns the title, with when the data was cached if it came from the cache
+ */
+export function withCachedAt(title: string, cachedAt: Date | undefined): string {
+  return cachedAt ? `${title} (cached at ${formatDate(cachedAt)})` : title;
+}
+
+/**
+ * Convert a duration to a readable string, like "1h 5m 3s", leaving out any zero units.
+ * @param d - days
+ * @param h - hours
+ * @param m - minutes
+ * @param s - seconds
+ * @returns readable version of the duration
+ */
+export function timeToReadable(d: number, h: number, m: number, s: number): string {
+  return (d !== 0 ? `${d}d ` : "") + (h !== 0 ? `${h}h ` : "") + (m !== 0 ? `${m}m ` : "") + (s !== 0 ? `${s}s ` : "");
+}
+
+/**
+ * Convert a duration in milliseconds to a readable string, like "1h 5m 3s".
+ * @param ms - duration in milliseconds
+ * @returns readable version of the duration
+ */
+export function msToReadable(ms: number): string {
+  const msSecond = 1000;
+  const msMinute = 60 * msSecond;
+  const msHour = 60 * msMinute;
+  const msDay = 24 * msHour;
+
+  const d = Math.floor(ms / msDay);
+  const h = Math.floor((ms - msDay * d) / msHour);
+  const m = Math.floor((ms - msDay * d - msHour * h) / msMinute);
+  const s = Math.floor((ms - msDay * d - msHour * h - msMinute * m) / msSecond);
+
+  return timeToReadable(d, h, m, s);
+}
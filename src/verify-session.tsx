@@ -0,0 +1,101 @@
+import {
+  Action,
+  ActionPanel,
+  Color,
+  Detail,
+  Icon,
+  launchCommand,
+  LaunchType,
+  openExtensionPreferences,
+} from "@raycast/api";
+import { usePromise } from "@raycast/utils";
+import { API_URL, SessionStatus, verifySession } from "./util/api";
+import { withAccount } from "./util/utils";
+import { DEFAULT_PROFILE_ID, Profile, useActiveProfile } from "./util/profiles";
+
+/**
+ * Describe a session token's status, with what to do about it if it isn't valid.
+ * @param status - the token's status
+ * @param tokenLocation - where the token is set, like "the extension preferences"
+ * @returns markdown describing the status
+ */
+function statusMarkdown(status: SessionStatus, tokenLocation: string): string {
+  switch (status.status) {
+    case "valid":
+      return `# Session token is valid\n\nLogged in as **${status.account.name}**.`;
+    case "expired":
+      return (
+        "# Session token has expired\n\n" +
+        `Log in to Advent of Code in your browser, then copy the new \`session\` cookie into ${tokenLocation}.`
+      );
+    case "malformed":
+      return (
+        "# Session token is malformed\n\n" +
+        "The token should be the long hex value of the `session` cookie, without `session=` or any quotes. " +
+        `Copy it again into ${tokenLocation}.`
+      );
+    case "unavailable":
+      return "# Unable to verify session token\n\nAdvent of Code is having trouble right now, so try again soon.";
+  }
+}
+
+const STATUS_TAGS: Record<SessionStatus["status"], { text: string; color: Color }> = {
+  valid: { text: "Valid", color: Color.Green },
+  expired: { text: "Expired", color: Color.Red },
+  malformed: { text: "Malformed", color: Color.Red },
+  unavailable: { text: "Unavailable", color: Color.Orange },
+};
+
+function Verification({ profile }: { profile: Profile }) {
+  // Skip the cache, since the point is to check the token works right now
+  const { isLoading, data, revalidate } = usePromise(verifySession, [profile.sessionToken.trim(), true]);
+  const account = data?.status === "valid" ? data.account : undefined;
+  // The default profile's token is a preference, while other profiles are managed by their own command
+  const isDefault = profile.id === DEFAULT_PROFILE_ID;
+
+  return (
+    <Detail
+      navigationTitle={withAccount(`Verify Session for ${profile.name}`, account?.name)}
+      isLoading={isLoading}
+      markdown={data && statusMarkdown(data, isDefault ? "the extension preferences" : `the ${profile.name} profile`)}
+      metadata={
+        data && (
+          <Detail.Metadata>
+            <Detail.Metadata.TagList title="Status">
+              <Detail.Metadata.TagList.Item {...STATUS_TAGS[data.status]} />
+            </Detail.Metadata.TagList>
+            {account && <Detail.Metadata.Label title="Account" text={account.name} />}
+            {account && (
+              <Detail.Metadata.Label
+                title="Supporter"
+                text={account.supporter ? "AoC++" : "No"}
+                icon={account.supporter ? Icon.Heart : undefined}
+              />
+            )}
+          </Detail.Metadata>
+        )
+      }
+      actions={
+        <ActionPanel>
+          {(data?.status === "expired" || data?.status === "malformed") &&
+            (isDefault ? (
+              <Action title="Open Extension Preferences" icon={Icon.Gear} onAction={openExtensionPreferences} />
+            ) : (
+              <Action
+                title="Manage Profiles"
+                icon={Icon.Person}
+                onAction={() => launchCommand({ name: "manage-profiles", type: LaunchType.UserInitiated })}
+              />
+            ))}
+          <Action title="Verify Again" icon={Icon.RotateClockwise} onAction={revalidate} />
+          <Action.OpenInBrowser title="Open Advent of Code" url={API_URL} />
+        </ActionPanel>
+      }
+    />
+  );
+}
+
+export default function Command() {
+  const { data: profile } = useActiveProfile();
+  return profile ? <Verification profile={profile} /> : <Detail isLoading />;
+}
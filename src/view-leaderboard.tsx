@@ -0,0 +1,170 @@
+import { Action, ActionPanel, captureException, getPreferenceValues, Icon, List, showToast, Toast } from "@raycast/api";
+import { usePromise } from "@raycast/utils";
+import { useState } from "react";
+import {
+  AocError,
+  API_URL,
+  getLeaderboard,
+  latestPuzzle,
+  Leaderboard,
+  LeaderboardMember,
+  useAccount,
+  useYears,
+} from "./util/api";
+import { Cached } from "./util/cache";
+import { formatDate, msToReadable, withAccount, withCachedAt } from "./util/utils";
+import { Profile, useActiveProfile } from "./util/profiles";
+import { YearDropdown } from "./components/year-dropdown";
+
+/**
+ * Parse the leaderboard IDs preference, which is a comma-separated list. Join codes (like
+ * "123456-abcdef") are accepted too, since the ID is the part before the dash.
+ * @param value - the preference's value
+ * @returns the leaderboard IDs found in the preference
+ */
+function parseLeaderboardIds(value: string): number[] {
+  return value
+    .split(",")
+    .map((id) => parseInt(id.trim(), 10))
+    .filter((id) => !Number.isNaN(id));
+}
+
+/**
+ * Build a markdown table with the times a member completed each part of each day.
+ * @param member - the member to build the table for
+ * @returns markdown for the member's completion table
+ */
+function completionMarkdown(member: LeaderboardMember): string {
+  const days = Array.from(member.completion.entries()).toSorted((a, b) => a[0] - b[0]);
+  if (days.length === 0) {
+    return `# ${member.name}\n\nNo stars yet.`;
+  }
+
+  const rows = days.map(([day, { part1, part2 }]) => {
+    const delta = part1 && part2 ? msToReadable(part2.getTime() - part1.getTime()).trim() || "0s" : "";
+    return `| ${day} | ${part1 ? formatDate(part1) : ""} | ${part2 ? formatDate(part2) : ""} | ${delta} |`;
+  });
+  return [`# ${member.name}`, "", "| Day | Part 1 | Part 2 | Part 1 → 2 |", "| --- | --- | --- | --- |", ...rows].join(
+    "\n",
+  );
+}
+
+function MemberDetail({ member }: { member: LeaderboardMember }) {
+  return (
+    <List.Item.Detail
+      markdown={completionMarkdown(member)}
+      metadata={
+        <List.Item.Detail.Metadata>
+          <List.Item.Detail.Metadata.Label title="Local Score" text={member.localScore.toString()} />
+          <List.Item.Detail.Metadata.Label title="Global Score" text={member.globalScore.toString()} />
+          <List.Item.Detail.Metadata.Label title="Stars" text={member.stars.toString()} icon={Icon.Star} />
+          <List.Item.Detail.Metadata.Separator />
+          <List.Item.Detail.Metadata.Label
+            title="Last Star"
+            text={member.lastStar ? formatDate(member.lastStar) : "Never"}
+          />
+        </List.Item.Detail.Metadata>
+      }
+    />
+  );
+}
+
+/**
+ * Load several leaderboards, showing the ones that load even if others can't be. The IDs that
+ * couldn't be loaded are reported in a toast.
+ * @param year - the year to load leaderboards for
+ * @param ids - the leaderboards' IDs
+ * @param sessionToken - user's AoC session token
+ * @returns the leaderboards that loaded, in the order of their IDs
+ */
+async function loadLeaderboards(year: number, ids: number[], sessionToken: string): Promise<Cached<Leaderboard>[]> {
+  const results = await Promise.allSettled(ids.map((id) => getLeaderboard(year, id, sessionToken)));
+  const failed = ids.filter((_, i) => results[i].status === "rejected");
+  const reasons = results.filter((result) => result.status === "rejected").map((result) => result.reason);
+  for (const reason of reasons) {
+    if (!(reason instanceof AocError)) {
+      captureException(reason);
+    }
+  }
+
+  if (failed.length > 0) {
+    const failedWith = (name: string) => reasons.some((reason) => reason instanceof AocError && reason.name === name);
+    showToast({
+      style: Toast.Style.Failure,
+      title: `Unable to load leaderboard${failed.length === 1 ? "" : "s"} ${failed.join(", ")}`,
+      message: failedWith("SERVER_ERROR")
+        ? "Advent of Code is having trouble, so try again soon"
+        : failedWith("OFFLINE")
+          ? "Leaderboard isn't cached, and offline mode is on"
+          : "Check the leaderboard IDs and session token in extension preferences",
+    });
+  }
+  return results.filter((result) => result.status === "fulfilled").map((result) => result.value);
+}
+
+function Leaderboards({ profile }: { profile: Profile }) {
+  const preferences = getPreferenceValues<Preferences.ViewLeaderboard>();
+  const ids = parseLeaderboardIds(preferences.leaderboardIds);
+
+  const [year, setYear] = useState(latestPuzzle().year);
+  const { isLoading: yearsLoading, data: years } = useYears();
+  const account = useAccount(profile.sessionToken);
+
+  // Leaderboards are cached on disk, so this respects AoC's limit of one request every 15 minutes
+  const { isLoading: leaderboardsLoading, data: leaderboards } = usePromise(loadLeaderboards, [
+    year,
+    ids,
+    profile.sessionToken,
+  ]);
+  // Show the oldest cache time, since that's the most out of date data being shown
+  const cachedAt = leaderboards
+    ?.map((it) => it.cachedAt)
+    .filter((it) => it !== undefined)
+    .toSorted((a, b) => a.getTime() - b.getTime())
+    .at(0);
+
+  return (
+    <List
+      navigationTitle={withAccount(withCachedAt(`Leaderboards for ${year}`, cachedAt), account?.name)}
+      searchBarPlaceholder="Search for a member"
+      isLoading={yearsLoading || leaderboardsLoading}
+      searchBarAccessory=<YearDropdown
+        years={years ?? [year]}
+        defaultValue={year.toString()}
+        storeValue
+        onChange={(val) => setYear(parseInt(val, 10))}
+      />
+      isShowingDetail
+    >
+      {leaderboards?.map(({ value: leaderboard }) => (
+        <List.Section
+          key={leaderboard.id}
+          title={`Leaderboard ${leaderboard.id}`}
+          subtitle={`${leaderboard.members.length} members`}
+        >
+          {leaderboard.members.map((member, i) => (
+            <List.Item
+              key={member.id}
+              title={`${i + 1}. ${member.name}`}
+              keywords={[member.name]}
+              accessories={[{ text: `${member.localScore}` }, { icon: Icon.Star, text: member.stars.toString() }]}
+              detail=<MemberDetail member={member} />
+              actions={
+                <ActionPanel>
+                  <Action.OpenInBrowser
+                    url={`${API_URL}/${leaderboard.year}/leaderboard/private/view/${leaderboard.id}`}
+                  />
+                </ActionPanel>
+              }
+            />
+          ))}
+        </List.Section>
+      ))}
+    </List>
+  );
+}
+
+export default function Command() {
+  const { data: profile } = useActiveProfile();
+  return profile ? <Leaderboards profile={profile} /> : <List isLoading />;
+}
@@ -0,0 +1,14 @@
+import { Detail, LaunchProps } from "@raycast/api";
+import { PuzzleDetail } from "./components/puzzle-detail";
+import { latestPuzzle } from "./util/api";
+import { useActiveProfile } from "./util/profiles";
+
+export default function Command(props: LaunchProps<{ arguments: Arguments.ViewPuzzle }>) {
+  // Fall back to the latest unlocked puzzle for anything that wasn't given
+  const latest = latestPuzzle();
+  const year = parseInt(props.arguments.year ?? "", 10) || latest.year;
+  const day = parseInt(props.arguments.day ?? "", 10) || (year === latest.year ? latest.day : 1);
+
+  const { data: profile } = useActiveProfile();
+  return profile ? <PuzzleDetail year={year} day={day} sessionToken={profile.sessionToken} /> : <Detail isLoading />;
+}
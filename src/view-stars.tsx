@@ -1,7 +1,23 @@
-import { Action, ActionPanel, getPreferenceValues, Icon, Image, List } from "@raycast/api";
+import { Action, ActionPanel, Icon, Image, Keyboard, LaunchProps, List } from "@raycast/api";
 import { getProgressIcon, usePromise } from "@raycast/utils";
-import { API_URL, getStars, getStarsForYear } from "./util/api";
+import {
+  API_URL,
+  DayResult,
+  defaultMaxStars,
+  getCalendar,
+  getDayCounts,
+  getPersonalResults,
+  getStars,
+  PartResult,
+  STARS_PER_DAY,
+  useAccount,
+} from "./util/api";
 import { useState } from "react";
+import { formatDate, msToReadable, withAccount, withCachedAt } from "./util/utils";
+import { PuzzleDetail } from "./components/puzzle-detail";
+import { CalendarDetail } from "./components/calendar-detail";
+import { Profile, useActiveProfile } from "./util/profiles";
+import { launchForPuzzle, PuzzleContext } from "./util/launch";
 
 /**
  * Returns whether an entry (day or year) passes the filter
@@ -34,31 +50,242 @@ function icon(stars: number, maxStars: number): Image.Asset | Image {
   }
 }
 
-function Year({ year }: { year: number }) {
-  const preferences = getPreferenceValues<Preferences.SubmitSolution>();
+/**
+ * Format a solve time as a readable duration.
+ * @param seconds - the time in seconds
+ * @returns readable version of the time, like "1h 5m 3s"
+ */
+function formatSeconds(seconds: number): string {
+  return msToReadable(seconds * 1000).trim() || "0s";
+}
+
+/**
+ * Get the median of some numbers.
+ * @param values - the numbers to get the median of
+ * @returns the median, or undefined if there are no numbers
+ */
+function median(values: number[]): number | undefined {
+  if (values.length === 0) {
+    return undefined;
+  }
+  const sorted = values.toSorted((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Get how long it took to go from solving part 1 to solving part 2.
+ * @param result - the day's results
+ * @returns the gap in seconds, or undefined if either time isn't known exactly
+ */
+function partGap(result: DayResult): number | undefined {
+  const [part1, part2] = [result.part1?.seconds, result.part2?.seconds];
+  return part1 !== undefined && part2 !== undefined ? part2 - part1 : undefined;
+}
+
+function PartMetadata({ title, result }: { title: string; result: PartResult | undefined }) {
+  if (!result) {
+    return <List.Item.Detail.Metadata.Label title={title} text="Not solved" />;
+  }
+  return (
+    <>
+      <List.Item.Detail.Metadata.Label title={`${title} Time`} text={result.time} icon={Icon.Clock} />
+      {result.rank !== undefined && (
+        <List.Item.Detail.Metadata.Label title={`${title} Rank`} text={`#${result.rank}`} />
+      )}
+      {result.score !== undefined && (
+        <List.Item.Detail.Metadata.Label title={`${title} Score`} text={result.score.toString()} />
+      )}
+    </>
+  );
+}
+
+function DayResultDetail({ result }: { result: DayResult | undefined }) {
+  const gap = result && partGap(result);
+  return (
+    <List.Item.Detail
+      markdown={result ? undefined : "No times yet"}
+      metadata={
+        result && (
+          <List.Item.Detail.Metadata>
+            <PartMetadata title="Part 1" result={result.part1} />
+            <List.Item.Detail.Metadata.Separator />
+            <PartMetadata title="Part 2" result={result.part2} />
+            {gap !== undefined && (
+              <>
+                <List.Item.Detail.Metadata.Separator />
+                <List.Item.Detail.Metadata.Label title="Part 1 to Part 2" text={formatSeconds(gap)} />
+              </>
+            )}
+          </List.Item.Detail.Metadata>
+        )
+      }
+    />
+  );
+}
+
+function YearSummaryDetail({ results }: { results: DayResult[] }) {
+  const parts = results.flatMap((result) => [
+    { day: result.day, part: 1, result: result.part1 },
+    { day: result.day, part: 2, result: result.part2 },
+  ]);
+  const solveTimes = (part: number) =>
+    parts.flatMap((it) => (it.part === part && it.result?.seconds !== undefined ? [it.result.seconds] : []));
+  const medianPart1 = median(solveTimes(1));
+  const medianPart2 = median(solveTimes(2));
+
+  const best = parts
+    .filter((it) => it.result?.rank !== undefined)
+    .toSorted((a, b) => (a.result?.rank ?? 0) - (b.result?.rank ?? 0))[0];
+
+  const gaps = results.flatMap((result) => {
+    const gap = partGap(result);
+    return gap !== undefined ? [{ day: result.day, gap }] : [];
+  });
+  const medianGap = median(gaps.map((it) => it.gap));
+  const longestGap = gaps.toSorted((a, b) => b.gap - a.gap)[0];
+
+  return (
+    <List.Item.Detail
+      metadata={
+        <List.Item.Detail.Metadata>
+          <List.Item.Detail.Metadata.Label
+            title="Days Solved"
+            text={results.filter((it) => it.part1).length.toString()}
+          />
+          <List.Item.Detail.Metadata.Separator />
+          <List.Item.Detail.Metadata.Label
+            title="Median Part 1 Time"
+            text={medianPart1 !== undefined ? formatSeconds(medianPart1) : "-"}
+          />
+          <List.Item.Detail.Metadata.Label
+            title="Median Part 2 Time"
+            text={medianPart2 !== undefined ? formatSeconds(medianPart2) : "-"}
+          />
+          <List.Item.Detail.Metadata.Separator />
+          <List.Item.Detail.Metadata.Label
+            title="Best Rank"
+            text={best ? `#${best.result?.rank} (day ${best.day} part ${best.part})` : "-"}
+          />
+          <List.Item.Detail.Metadata.Separator />
+          <List.Item.Detail.Metadata.Label
+            title="Median Part 1 to Part 2"
+            text={medianGap !== undefined ? formatSeconds(medianGap) : "-"}
+          />
+          <List.Item.Detail.Metadata.Label
+            title="Longest Part 1 to Part 2"
+            text={longestGap ? `${formatSeconds(longestGap.gap)} (day ${longestGap.day})` : "-"}
+          />
+        </List.Item.Detail.Metadata>
+      }
+    />
+  );
+}
 
-  const { isLoading, data } = usePromise(getStarsForYear, [year, preferences.sessionToken]);
+function ShowCalendarAction({ year, profile }: { year: number; profile: Profile }) {
+  return (
+    <Action.Push
+      title="Show Calendar"
+      icon={Icon.Calendar}
+      target=<CalendarDetail year={year} sessionToken={profile.sessionToken} />
+      shortcut={{ modifiers: ["cmd", "shift"], key: "k" }}
+    />
+  );
+}
+
+interface YearProps {
+  year: number;
+  profile: Profile;
+  /** Day to select, if launched from another command */
+  selectedDay?: number;
+}
+
+function Year({ year, profile, selectedDay }: YearProps) {
+  const { isLoading, data } = usePromise(getCalendar, [year, profile.sessionToken]);
+  const { isLoading: resultsLoading, data: results } = usePromise(getPersonalResults, [year, profile.sessionToken], {
+    // Times are extra detail, so the calendar is still useful without them
+    onError: () => {},
+  });
+  const account = useAccount(profile.sessionToken);
   const [filter, setFilter] = useState("all");
 
   return (
     <List
-      navigationTitle={`Stars for ${year}`}
+      navigationTitle={withAccount(withCachedAt(`Stars for ${year}`, data?.cachedAt), account?.name)}
       searchBarPlaceholder="Enter day"
-      isLoading={isLoading}
+      isLoading={isLoading || resultsLoading}
+      selectedItemId={selectedDay?.toString()}
       searchBarAccessory=<FilterDropdown onChange={setFilter} />
+      isShowingDetail
     >
-      {passesFilter(year, filter, 2) &&
-        Array.from(data?.entries() ?? []).map(([day, stars]) => (
-          <List.Item
-            key={day}
-            title={`Day: ${day}`}
-            subtitle={`${stars}/2`}
-            icon={icon(stars, 2)}
-            actions=<ActionPanel>
-              <Action.OpenInBrowser url={`${API_URL}/${year}/day/${day}`} />
-            </ActionPanel>
-          />
-        ))}
+      {results && results.value.size > 0 && (
+        <List.Item
+          id="summary"
+          title="Summary"
+          icon={Icon.BarChart}
+          detail=<YearSummaryDetail results={Array.from(results.value.values())} />
+          actions=<ActionPanel>
+            <Action.OpenInBrowser title="Open Personal Stats" url={`${API_URL}/${year}/leaderboard/self`} />
+            <ShowCalendarAction year={year} profile={profile} />
+          </ActionPanel>
+        />
+      )}
+      {data?.value.days.map(
+        ({ day, stars, unlocked, unlockTime }) =>
+          passesFilter(stars, filter, STARS_PER_DAY) &&
+          (unlocked ? (
+            <List.Item
+              id={day.toString()}
+              key={day}
+              title={`Day: ${day}`}
+              subtitle={`${stars}/${STARS_PER_DAY}`}
+              icon={icon(stars, STARS_PER_DAY)}
+              detail=<DayResultDetail result={results?.value.get(day)} />
+              actions=<ActionPanel>
+                <Action.Push
+                  title="View Puzzle"
+                  icon={Icon.Document}
+                  target=<PuzzleDetail year={year} day={day} sessionToken={profile.sessionToken} />
+                />
+                <Action.OpenInBrowser url={`${API_URL}/${year}/day/${day}`} />
+                <ShowCalendarAction year={year} profile={profile} />
+                {stars < STARS_PER_DAY && (
+                  <Action
+                    title="Create Project"
+                    icon={Icon.NewFolder}
+                    onAction={() => launchForPuzzle("create-project", { year, day })}
+                    shortcut={Keyboard.Shortcut.Common.New}
+                  />
+                )}
+                {stars < STARS_PER_DAY && (
+                  <Action
+                    title={`Submit Solution for ${year}/${day}`}
+                    icon={Icon.Upload}
+                    onAction={() => launchForPuzzle("submit-solution", { year, day, part: stars === 0 ? 1 : 2 })}
+                    shortcut={{ modifiers: ["cmd", "shift"], key: "u" }}
+                  />
+                )}
+                <Action
+                  title="Open Project"
+                  icon={Icon.Folder}
+                  onAction={() => launchForPuzzle("open-project", { year, day })}
+                  shortcut={{ modifiers: ["cmd", "shift"], key: "f" }}
+                />
+              </ActionPanel>
+            />
+          ) : (
+            <List.Item
+              key={day}
+              title={`Day: ${day}`}
+              subtitle={`Unlocks ${formatDate(unlockTime)}`}
+              icon={Icon.Lock}
+              detail=<List.Item.Detail markdown={`Unlocks ${formatDate(unlockTime)}`} />
+              actions=<ActionPanel>
+                <ShowCalendarAction year={year} profile={profile} />
+              </ActionPanel>
+            />
+          )),
+      )}
     </List>
   );
 }
@@ -73,29 +300,51 @@ function FilterDropdown({ onChange }: { onChange: (newValue: string) => void })
   );
 }
 
-export default function Command() {
-  const preferences = getPreferenceValues<Preferences.SubmitSolution>();
-
-  const { isLoading, data } = usePromise(getStars, [preferences.sessionToken]);
+function Years({ profile }: { profile: Profile }) {
+  const { isLoading, data } = usePromise(getStars, [profile.sessionToken]);
+  const account = useAccount(profile.sessionToken);
   const [filter, setFilter] = useState("all");
 
+  // Events since 2025 have fewer puzzles, so get their sizes from their calendars
+  const { isLoading: dayCountsLoading, data: dayCounts } = usePromise(
+    getDayCounts,
+    [Array.from(data?.value.keys() ?? []), profile.sessionToken],
+    { execute: data !== undefined },
+  );
+  const maxStars = (year: number) =>
+    dayCounts?.[year] !== undefined ? dayCounts[year] * STARS_PER_DAY : defaultMaxStars(year);
+
   return (
     <List
+      navigationTitle={withAccount(withCachedAt("View Stars", data?.cachedAt), account?.name)}
       searchBarPlaceholder="Enter year"
-      isLoading={isLoading}
+      isLoading={isLoading || dayCountsLoading}
       searchBarAccessory=<FilterDropdown onChange={setFilter} />
     >
-      {Array.from(data?.entries() ?? []).map(
+      {Array.from(data?.value.entries() ?? []).map(
         ([year, stars]) =>
-          passesFilter(stars, filter, 50) && (
+          passesFilter(stars, filter, maxStars(year)) && (
             <List.Item
               key={year}
               title={year.toString()}
-              subtitle={`${stars}/50`}
-              icon={icon(stars, 50)}
+              subtitle={`${stars}/${maxStars(year)}`}
+              icon={icon(stars, maxStars(year))}
               actions=<ActionPanel>
-                <Action.Push title={`View Stars for ${year}`} icon={Icon.Star} target=<Year year={year} /> />
+                <Action.Push
+                  title={`View Stars for ${year}`}
+                  icon={Icon.Star}
+                  target=<Year year={year} profile={profile} />
+                />
                 <Action.OpenInBrowser url={`${API_URL}/${year}`} />
+                <ShowCalendarAction year={year} profile={profile} />
+                {stars < maxStars(year) && (
+                  <Action
+                    title={`Create Project for ${year}`}
+                    icon={Icon.NewFolder}
+                    onAction={() => launchForPuzzle("create-project", { year })}
+                    shortcut={Keyboard.Shortcut.Common.New}
+                  />
+                )}
               </ActionPanel>
             />
           ),
@@ -103,3 +352,17 @@ export default function Command() {
     </List>
   );
 }
+
+export default function Command(props: LaunchProps<{ launchContext?: PuzzleContext }>) {
+  const { data: profile } = useActiveProfile();
+  const year = props.launchContext?.year;
+  if (!profile) {
+    return <List isLoading />;
+  }
+  // Go straight to the year's stars if launched for a puzzle
+  return year !== undefined ? (
+    <Year year={year} profile={profile} selectedDay={props.launchContext?.day} />
+  ) : (
+    <Years profile={profile} />
+  );
+}